@@ -87,8 +87,8 @@ function createExpressRouter() {
   return router;
 }
 
-function createFastRouter() {
-  const router = new FastRouter();
+function createFastRouter(options?: ConstructorParameters<typeof FastRouter>[0]) {
+  const router = new FastRouter(options);
 
   for (let i = 0; i < 100; i++) router.get(`/user/${i}`, (req, res) => res.send(`user-${i}`));
 
@@ -168,6 +168,28 @@ const results = [
   measure('FastRouter - Async', () => fastRouter.dispatch(mocks.async.req, mocks.async.res, () => {})),
 ];
 
+/* -------------------------------------------- */
+/* ♻️ Match Cache (Hot Dynamic Paths)           */
+/* -------------------------------------------- */
+
+console.log('\n📊 Match Cache (Hot Dynamic Paths)');
+const cachedRouter = createFastRouter({cacheSize: 1000});
+const hotPaths = Array.from({length: 20}, (_, i) => createMockReqRes(i % 2 ? `/api/v1/items/${i}` : `/multi/${i}`));
+
+let hot = 0;
+const uncachedMs = measure('FastRouter - Hot Paths', () => {
+  const {req, res} = hotPaths[hot++ % hotPaths.length];
+  fastRouter.dispatch(req, res, () => {});
+});
+hot = 0;
+const cachedMs = measure('FastRouter (cached) - Hot Paths', () => {
+  const {req, res} = hotPaths[hot++ % hotPaths.length];
+  cachedRouter.dispatch(req, res, () => {});
+});
+
+const {hits, misses} = cachedRouter.router.cacheStats!;
+console.log(`Cache gain: ${(uncachedMs / cachedMs).toFixed(2)}x | hits: ${hits} | misses: ${misses}`);
+
 /* -------------------------------------------- */
 /* 🧱 Cold Start (Route Registration)           */
 /* -------------------------------------------- */
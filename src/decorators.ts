@@ -0,0 +1,167 @@
+import type {Router} from './router';
+import type {Handler, RouteOptions} from './types';
+
+/**
+ * A class decorated with {@link Controller}, or an instance of one.
+ */
+export type ControllerLike = (new () => object) | object;
+
+interface ControllerDefinition {
+  prefix: string;
+  middleware: Handler[];
+}
+
+interface EndpointDefinition {
+  method: string;
+  path: string;
+  options: RouteOptions;
+}
+
+interface ActionDefinition {
+  name: string | symbol;
+  endpoints: EndpointDefinition[];
+  middleware: Handler[];
+}
+
+type ClassDecorator = (target: abstract new (...args: any[]) => any, context: ClassDecoratorContext) => void;
+type MethodDecorator = (target: (...args: any[]) => any, context: ClassMethodDecoratorContext) => void;
+
+// Definitions collected by the decorators, keyed by the class and by the method function
+const controllers = new WeakMap<object, ControllerDefinition>();
+const actions = new WeakMap<object, ActionDefinition>();
+
+const controllerOf = (target: object) => {
+  if (!controllers.has(target)) controllers.set(target, {prefix: '/', middleware: []});
+  return controllers.get(target)!;
+};
+
+const actionOf = (target: object, context: ClassMethodDecoratorContext) => {
+  if (context.static || context.private) {
+    throw new Error(`Cannot route ${String(context.name)}: route handlers must be public instance methods`);
+  }
+  if (!actions.has(target)) actions.set(target, {name: context.name, endpoints: [], middleware: []});
+  return actions.get(target)!;
+};
+
+/**
+ * Marks a class as a controller, mounting its routes at `prefix`.
+ *
+ * @param prefix - Path prefix of every route of the controller (default: `/`).
+ *
+ * @example
+ * ```ts
+ * @Controller('/users')
+ * class UsersController {
+ *   @Get('/:id')
+ *   show(req: Request) {
+ *     return users.find(req.params.id);
+ *   }
+ * }
+ *
+ * app.use(Router.fromControllers([UsersController]).dispatch);
+ * ```
+ */
+export const Controller =
+  (prefix = '/'): ClassDecorator =>
+  target => {
+    controllerOf(target).prefix = prefix;
+  };
+
+/**
+ * Registers the decorated method as the handler of `method` and `path`, relative to the controller prefix.
+ *
+ * The method is called with the controller instance as `this`, and its return value is sent like any route handler's.
+ *
+ * @param method - The HTTP method, case-insensitive (e.g. `'PROPFIND'`).
+ * @param path - The route path (default: `/`).
+ * @param options - Route name and metadata (see {@link RouteOptions}).
+ */
+export const Route =
+  (method: string, path = '/', options: RouteOptions = {}): MethodDecorator =>
+  (target, context) => {
+    // Decorators apply bottom-up, so prepend to keep the declaration order
+    actionOf(target, context).endpoints.unshift({method, path, options});
+  };
+
+/** Registers the decorated method as a GET route. */
+export const Get = (path?: string, options?: RouteOptions) => Route('get', path, options);
+/** Registers the decorated method as a POST route. */
+export const Post = (path?: string, options?: RouteOptions) => Route('post', path, options);
+/** Registers the decorated method as a PUT route. */
+export const Put = (path?: string, options?: RouteOptions) => Route('put', path, options);
+/** Registers the decorated method as a DELETE route. */
+export const Delete = (path?: string, options?: RouteOptions) => Route('delete', path, options);
+/** Registers the decorated method as a PATCH route. */
+export const Patch = (path?: string, options?: RouteOptions) => Route('patch', path, options);
+/** Registers the decorated method as a HEAD route. */
+export const Head = (path?: string, options?: RouteOptions) => Route('head', path, options);
+/** Registers the decorated method as an OPTIONS route. */
+export const Options = (path?: string, options?: RouteOptions) => Route('options', path, options);
+/** Registers the decorated method as a route matching any HTTP method. */
+export const All = (path?: string, options?: RouteOptions) => Route('all', path, options);
+
+/**
+ * Adds middleware running before the decorated method, or before every route of the decorated controller.
+ *
+ * Stacked decorators run top to bottom.
+ *
+ * @example
+ * ```ts
+ * @Controller('/admin')
+ * @Use(authenticate)
+ * class AdminController {
+ *   @Post('/ban')
+ *   @Use(requireRole('admin'))
+ *   ban(req: Request) {...}
+ * }
+ * ```
+ */
+export const Use =
+  (...middleware: Handler[]) =>
+  (target: object, context: ClassDecoratorContext | ClassMethodDecoratorContext): void => {
+    const definition = context.kind === 'class' ? controllerOf(target) : actionOf(target, context);
+    definition.middleware.unshift(...middleware);
+  };
+
+/**
+ * Collects the decorated methods of a class and its base classes, base class routes first.
+ * An overriding method takes the place of the one it overrides, and inherits its routes if undecorated.
+ */
+const actionsOf = (Class: new () => object): ActionDefinition[] => {
+  const prototypes: object[] = [];
+  for (let p = Class.prototype; p && p !== Object.prototype; p = Object.getPrototypeOf(p)) prototypes.unshift(p);
+
+  const byName = new Map<string | symbol, ActionDefinition>();
+  prototypes.forEach(prototype =>
+    Reflect.ownKeys(prototype).forEach(key => {
+      const action = actions.get(Object.getOwnPropertyDescriptor(prototype, key)?.value);
+      if (action) byName.set(key, action);
+    }),
+  );
+  return [...byName.values()];
+};
+
+/**
+ * Registers the routes of decorated controllers on a router (see `Router.fromControllers()`).
+ */
+export const registerControllers = (router: Router<any>, targets: ControllerLike[]): void => {
+  targets.forEach(target => {
+    const instance: any = typeof target === 'function' ? new (target as new () => object)() : target;
+    const Class = instance.constructor;
+    const prototypeActions = actionsOf(Class);
+    if (!controllers.has(Class) && !prototypeActions.length) {
+      throw new Error(
+        `${Class.name} is not a controller: decorate it with @Controller() and its routes with @Get(), ...`,
+      );
+    }
+
+    const {prefix, middleware} = controllerOf(Class);
+    router.group(prefix, ...middleware, r => {
+      prototypeActions.forEach(({name, endpoints, middleware}) => {
+        const handler: Handler = (req, res, next) => instance[name](req, res, next);
+        Object.defineProperty(handler, 'name', {value: `${Class.name}.${String(name)}`});
+        endpoints.forEach(({method, path, options}) => r.method(method, path, options, ...middleware, handler));
+      });
+    });
+  });
+};
@@ -153,3 +153,9 @@ export const InternalServerError = createHttpErrorClass(HttpStatus.INTERNAL_SERV
  * @extends {HttpError}
  */
 export const ContentTooLargeError = createHttpErrorClass(HttpStatus.PAYLOAD_TOO_LARGE);
+
+/**
+ * Represents a Method Not Allowed HTTP error (405).
+ * @extends {HttpError}
+ */
+export const MethodNotAllowedError = createHttpErrorClass(HttpStatus.METHOD_NOT_ALLOWED);
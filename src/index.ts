@@ -1,5 +1,8 @@
 export * from './helps';
 export {Router} from './router';
+export {loadRoutes} from './router/file-routes';
+export {RouteLintError} from './router/errors';
+export {Controller, Route, Get, Post, Put, Delete, Patch, Head, Options, All, Use} from './decorators';
 export {handler} from './handler';
 export {HttpStatus} from './status';
 export {errorHandler, notFound, poweredBy} from './middle';
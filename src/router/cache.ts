@@ -0,0 +1,55 @@
+/**
+ * Counters describing the state of a {@link LRUCache}.
+ */
+export interface CacheStats {
+  /** Lookups answered from the cache. */
+  hits: number;
+  /** Lookups that had to be computed. */
+  misses: number;
+  /** Entries currently cached. */
+  size: number;
+  /** Maximum number of entries. */
+  capacity: number;
+}
+
+/**
+ * A bounded least-recently-used cache, relying on the insertion order of a `Map`.
+ */
+export class LRUCache<K, V> {
+  #entries = new Map<K, V>();
+  #hits = 0;
+  #misses = 0;
+
+  constructor(private capacity: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.#entries.get(key);
+    if (value === undefined) {
+      this.#misses++;
+      return value;
+    }
+
+    // Move to the most recently used position
+    this.#entries.delete(key);
+    this.#entries.set(key, value);
+    this.#hits++;
+    return value;
+  }
+
+  set(key: K, value: V) {
+    if (this.#entries.size >= this.capacity) {
+      // The first key is the least recently used
+      this.#entries.delete(this.#entries.keys().next().value as K);
+    }
+    this.#entries.set(key, value);
+  }
+
+  /** Drops every entry, keeping the counters. */
+  clear() {
+    this.#entries.clear();
+  }
+
+  get stats(): CacheStats {
+    return {hits: this.#hits, misses: this.#misses, size: this.#entries.size, capacity: this.capacity};
+  }
+}
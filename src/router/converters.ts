@@ -0,0 +1,87 @@
+import type {RouterRoute} from '../types';
+
+/**
+ * A named parameter converter, used as `:name<converter>` in route paths.
+ *
+ * @template T - The type of the parsed value.
+ */
+export interface Converter<T = unknown> {
+  /** Regular expression source the segment must match (non-capturing groups only). */
+  pattern: string;
+  /** Turns the decoded segment into the value exposed on `req.params`. */
+  parse: (value: string) => T;
+}
+
+type Parsers = Record<string, (value: string) => unknown>;
+
+// `YYYY-MM-DD` calendar dates only: `Date` would roll `2024-02-31` over to March
+const ISO_DATE = [
+  '[0-9]{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12][0-9]|3[01])|(?:0[469]|11)-(?:0[1-9]|[12][0-9]|30)|02-(?:0[1-9]|1[0-9]|2[0-8]))',
+  // February 29th of leap years
+  '(?:[0-9]{2}(?:0[48]|[2468][048]|[13579][26])|(?:[02468][048]|[13579][26])00)-02-29',
+].join('|');
+
+const converters = new Map<string, Converter>([
+  ['int', {pattern: '[0-9]+', parse: Number}],
+  ['slug', {pattern: '[a-z0-9]+(?:-[a-z0-9]+)*', parse: String}],
+  ['uuid', {pattern: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}', parse: String}],
+  ['isodate', {pattern: ISO_DATE, parse: value => new Date(value)}],
+]);
+
+// `/:name<converter>`, optionally followed by `?`
+const converterRegExp = /\/:([^/{}<>?]+)<([^<>/]+)>/g;
+
+// Parsers of the routes declaring converters
+const routeParsers = new WeakMap<RouterRoute, Parsers>();
+
+const getConverter = (name: string): Converter => {
+  const converter = converters.get(name);
+  if (!converter) throw new Error(`Unknown param converter: <${name}>`);
+  return converter;
+};
+
+/**
+ * Registers (or replaces) a named parameter converter.
+ *
+ * @throws {Error} If the name is invalid or the pattern has capturing groups.
+ */
+export const registerConverter = <T>(name: string, converter: Converter<T>): void => {
+  if (!/^[A-Za-z_][\w-]*$/.test(name)) throw new Error(`Invalid param converter name: ${name}`);
+  // Lookarounds and `(?:...)` only: named groups `(?<x>...)` capture too
+  if (/\((?!\?(?::|[=!]|<[=!]))/.test(converter.pattern.replace(/\\./g, ''))) {
+    throw new Error(`Param converter <${name}> must only use non-capturing groups: ${converter.pattern}`);
+  }
+  converters.set(name, converter);
+};
+
+/**
+ * Replaces `:name<converter>` segments by `:name{pattern}`, the syntax understood by the matchers.
+ * The pattern is grouped, so alternations (`red|blue`) apply to the whole segment.
+ *
+ * @example
+ * ```ts
+ * expandConverters('/users/:id<int>'); // '/users/:id{(?:[0-9]+)}'
+ * ```
+ */
+export const expandConverters = (path: string): string =>
+  path.includes('<')
+    ? path.replace(converterRegExp, (_, name, type) => `/:${name}{(?:${getConverter(type).pattern})}`)
+    : path;
+
+/**
+ * Records the parsers of the converters declared by a route's path.
+ */
+export const bindConverters = (route: RouterRoute): void => {
+  if (!route.path.includes('<')) return;
+
+  const parsers: Parsers = {};
+  for (const [, name, type] of route.path.matchAll(converterRegExp)) {
+    parsers[name] = getConverter(type).parse;
+  }
+  routeParsers.set(route, parsers);
+};
+
+/**
+ * Returns the parsers of a route, if its path declares converters.
+ */
+export const parsersOf = (route: RouterRoute): Parsers | undefined => routeParsers.get(route);
@@ -1,15 +1,22 @@
+import type {RouteLintIssue} from '../types';
+
 /**
  * Thrown when an unsupported path pattern is encountered.
  * For example, duplicate parameter names or invalid syntax.
  */
 export class UnsupportedPathError extends Error {
-  constructor(path: string) {
+  constructor(readonly path: string) {
     super(`Unsupported path pattern: ${path}`);
     this.name = 'UnsupportedPathError';
   }
 }
 
 /**
- * Error message used when trying to add routes after matchers are built.
+ * Thrown by `Router.lint({strict: true})` when the route table has issues.
  */
-export const MESSAGE_MATCHER_IS_ALREADY_BUILT = 'Matcher is already built — routes can no longer be added.';
+export class RouteLintError extends Error {
+  constructor(readonly issues: RouteLintIssue[]) {
+    super(`Route table has ${issues.length} issue(s):\n${issues.map(i => `- ${i.message}`).join('\n')}`);
+    this.name = 'RouteLintError';
+  }
+}
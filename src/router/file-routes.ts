@@ -0,0 +1,118 @@
+import {readdir} from 'node:fs/promises';
+import {extname, join} from 'node:path';
+import {pathToFileURL} from 'node:url';
+import {Router} from './index';
+import type {Handler, RouterOptions} from '../types';
+import {METHODS, METHOD_NAME_ALL_LOWERCASE} from '../types';
+
+/**
+ * Options accepted by {@link loadRoutes}.
+ */
+export interface FileRoutesOptions {
+  /** Extensions of the route files (default: `.ts`, `.js`, `.mts`, `.mjs`, `.cts`, `.cjs`). */
+  extensions?: string[];
+  /** Options of the created routers (see {@link RouterOptions}). */
+  router?: RouterOptions;
+}
+
+const MIDDLEWARE_FILE = '_middleware';
+
+// `delete` is a reserved word, so route files may export the DELETE handler as `del`
+const EXPORT_ALIASES: Record<string, string> = {delete: 'del'};
+
+/**
+ * Translates a file or directory name into a path segment:
+ * `index` → `/`, `[id]` → `/:id`, `[...rest]` → `/*rest`, `users` → `/users`.
+ */
+const toSegment = (name: string): string => {
+  if (name === 'index') return '/';
+  const wildcard = /^\[\.\.\.(\w+)\]$/.exec(name);
+  if (wildcard) return `/*${wildcard[1]}`;
+  return `/${name.replace(/\[(\w+)\]/g, ':$1')}`;
+};
+
+/**
+ * Orders entries: `index` first, then static segments before params, and params before wildcards.
+ */
+const rank = (name: string) => (name === 'index' ? -1 : name.startsWith('[...') ? 2 : name.includes('[') ? 1 : 0);
+
+const importModule = (file: string): Promise<Record<string, unknown>> => import(pathToFileURL(file).href);
+
+/**
+ * Builds a `Router` from a directory of route files.
+ *
+ * - Each file exports handlers named after HTTP methods (`get`, `post`, ..., `all`, and
+ *   `del` for `delete`), either a single handler or an array of handlers.
+ * - `index` files match their directory path, `[id]` segments become params and
+ *   `[...rest]` files become named wildcards (`req.params.rest`).
+ * - A `_middleware` file's default export (a handler or an array of handlers)
+ *   runs before every route of its directory and subdirectories.
+ * - Other files and directories prefixed with `_` are ignored.
+ *
+ * Static segments are matched before params, and params before wildcards;
+ * subdirectories are mounted with `route()`.
+ *
+ * @param dir - The routes directory.
+ * @param options - Route file extensions and router options.
+ * @returns A router behaving like the equivalent hand-written one.
+ *
+ * @example
+ * ```ts
+ * // routes/_middleware.ts  → export default authMiddleware;
+ * // routes/users/index.ts  → export const get = listUsers; export const post = [validate, createUser];
+ * // routes/users/[id].ts   → export const get = showUser;
+ * // routes/files/[...path].ts → export const get = req => req.params.path;
+ * const router = await loadRoutes(join(import.meta.dirname, 'routes'));
+ * app.use(router.dispatch);
+ * ```
+ */
+export const loadRoutes = async (dir: string, options: FileRoutesOptions = {}): Promise<Router<any>> => {
+  const {extensions = ['.ts', '.js', '.mts', '.mjs', '.cts', '.cjs'], router: routerOptions} = options;
+  const router = new Router(routerOptions);
+  const entries = (await readdir(dir, {withFileTypes: true}))
+    .map(entry => {
+      const ext = entry.isFile() ? extname(entry.name) : '';
+      return {entry, ext, name: entry.name.slice(0, entry.name.length - ext.length)};
+    })
+    .filter(({entry, ext, name}) => entry.isDirectory() || (extensions.includes(ext) && !name.endsWith('.d')))
+    // Files come before the directory of the same name (`[id].ts` before `[id]/`)
+    .sort(
+      (a, b) =>
+        rank(a.name) - rank(b.name) ||
+        a.name.localeCompare(b.name) ||
+        Number(a.entry.isDirectory()) - Number(b.entry.isDirectory()),
+    );
+
+  // Middleware of the directory applies to every route below it
+  const middleware = entries.find(({entry, name}) => entry.isFile() && name === MIDDLEWARE_FILE);
+  if (middleware) {
+    const module = await importModule(join(dir, middleware.entry.name));
+    const handlers = [module.default].flat() as Handler[];
+    if (!handlers.every(handler => typeof handler === 'function')) {
+      throw new Error(`${join(dir, middleware.entry.name)} must export default middleware`);
+    }
+    router.use('*', ...handlers);
+  }
+
+  for (const {entry, name} of entries) {
+    const file = join(dir, entry.name);
+    // Files and directories prefixed with `_` are private (helpers, fixtures, ...)
+    if (name.startsWith('_')) continue;
+    if (entry.isDirectory()) {
+      router.route(toSegment(name), await loadRoutes(file, options));
+      continue;
+    }
+    const module = await importModule(file);
+    const methods = [...METHODS, METHOD_NAME_ALL_LOWERCASE].filter(
+      method => module[method] ?? module[EXPORT_ALIASES[method]],
+    );
+    if (!methods.length) {
+      throw new Error(`${file} exports no route handlers (prefix helper files with "_" to skip them)`);
+    }
+    methods.forEach(method => {
+      const handlers = [module[method] ?? module[EXPORT_ALIASES[method]]].flat() as Handler[];
+      router.on(method, toSegment(name), ...handlers);
+    });
+  }
+  return router;
+};
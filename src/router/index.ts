@@ -1,18 +1,173 @@
 import {Param} from './param';
 import {compose} from './layer';
-import {mergePath} from './utils';
-import {HttpError} from '../helps';
+import {buildMountRegExp, fillPath, mergePath, mergeRegExpPath} from './utils';
+import {formatRouteTree, inspectRoutes} from './inspect';
+import {lintRoutes} from './lint';
+import {bindConverters, expandConverters, registerConverter, type Converter} from './converters';
+import {bindSegments, bindWildcards, declaredParams, resolveUrlPath, toMatcherPaths} from './syntax';
+import {RouteLintError, UnsupportedPathError} from './errors';
 import {SmartRouter} from './smart';
+import {HttpStatus} from '../status';
 import {TrieRouter} from './trie-tree';
-import {RegExpRouter} from './reg-exp';
-import {handleResult} from '../handler';
-import type {RequestHandler} from 'express';
-import type {Handler, RouterRoute} from '../types';
+import {RegExpRouter, checkRoutes} from './reg-exp';
+import {PatternRouter} from './pattern';
+import {handler, handleResult} from '../handler';
+import {registerControllers, type ControllerLike} from '../decorators';
+import {HttpError, MethodNotAllowedError} from '../helps';
+import type {Application, NextFunction, Request, RequestHandler, Response} from 'express';
+import type {
+  ErrorHandler,
+  Handler,
+  MatchedRoute,
+  MergeParams,
+  ParamHandler,
+  Params,
+  PathParams,
+  Result,
+  RouteLintIssue,
+  ResourceAction,
+  ResourceController,
+  ResourceOptions,
+  RouteOptions,
+  RouteTable,
+  RouterOptions,
+  RouterRoute,
+  UrlQuery,
+} from '../types';
 import {METHODS, METHOD_NAME_ALL, METHOD_NAME_ALL_LOWERCASE} from '../types';
 
+/**
+ * Signature shared by the HTTP method registration helpers (`get`, `post`, ...).
+ *
+ * Route parameters are inferred from the path literal and merged with the
+ * parameters of the router's mount point (`Parent`).
+ */
+type RouteMethod<R, Parent> = {
+  <P extends string>(path: P, ...handlers: Handler<MergeParams<Parent, PathParams<P>>>[]): R;
+  <P extends string>(path: P, options: RouteOptions, ...handlers: Handler<MergeParams<Parent, PathParams<P>>>[]): R;
+  (path: RegExp, ...handlers: Handler<MergeParams<Parent, Params>>[]): R;
+  (path: RegExp, options: RouteOptions, ...handlers: Handler<MergeParams<Parent, Params>>[]): R;
+};
+
+/**
+ * A route scoped to a single path, returned by `Router.route(path)`.
+ *
+ * Middleware added with `use()` runs before the handlers registered after it on this route.
+ *
+ * @example
+ * ```ts
+ * router.route('/users/:id').get(show).use(auth).put(update).delete(destroy);
+ * ```
+ */
+export type RouteBuilder<P = Params> = {
+  [M in (typeof METHODS)[number] | typeof METHOD_NAME_ALL_LOWERCASE]: {
+    (...handlers: Handler<P>[]): RouteBuilder<P>;
+    (options: RouteOptions, ...handlers: Handler<P>[]): RouteBuilder<P>;
+  };
+} & {
+  /** Registers handlers for any HTTP method, including extension methods (see `Router.method()`). */
+  method(method: string, ...handlers: Handler<P>[]): RouteBuilder<P>;
+  method(method: string, options: RouteOptions, ...handlers: Handler<P>[]): RouteBuilder<P>;
+  /** Adds middleware to the handlers registered afterwards on this route. */
+  use(...handlers: Handler<P>[]): RouteBuilder<P>;
+};
+
+// Method of each resource action, and whether it targets a member (`/users/:id`) or the collection
+const RESOURCE_ACTIONS: [ResourceAction, string, boolean][] = [
+  ['index', 'get', false],
+  ['create', 'post', false],
+  ['show', 'get', true],
+  ['update', 'put', true],
+  ['patch', 'patch', true],
+  ['destroy', 'delete', true],
+];
+
+// Valid HTTP method token (RFC 9110)
+const METHOD_TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Creates the candidate matchers for a routing strategy.
+ */
+const createMatchers = (strategy: RouterOptions['strategy'], caseSensitive: boolean) => {
+  const options = {caseSensitive};
+  switch (strategy) {
+    case 'regexp':
+      return [new RegExpRouter<[Handler, RouterRoute]>(options)];
+    case 'trie':
+      return [new TrieRouter<[Handler, RouterRoute]>(options)];
+    case 'pattern':
+      return [new PatternRouter<[Handler, RouterRoute]>(options)];
+    default:
+      // PatternRouter only kicks in for RegExp paths
+      return [
+        new RegExpRouter<[Handler, RouterRoute]>(options),
+        new TrieRouter<[Handler, RouterRoute]>(options),
+        new PatternRouter<[Handler, RouterRoute]>(options),
+      ];
+  }
+};
+
+/**
+ * Describes the endpoint that ran last up to the handler at `routeIndex`,
+ * i.e. the one handling the request (earlier endpoints called `next()`).
+ */
+const matchedRoute = (entries: Result<[Handler, RouterRoute]>[0], routeIndex = 0): MatchedRoute | undefined => {
+  for (let i = Math.min(routeIndex, entries.length - 1); i >= 0; i--) {
+    const route = entries[i][0][1];
+    if (!route.isMiddleware) return {pattern: route.path, method: route.method, prefix: route.basePath, route};
+  }
+  return undefined;
+};
+
+/**
+ * Resolves `req.endpoint` (and `req.route`) for the handler at `routeIndex`: an endpoint's own route, or for
+ * middleware, the endpoint it runs ahead of (falling back to the one that called `next()`).
+ */
+const currentRoute = (entries: Result<[Handler, RouterRoute]>[0], routeIndex = 0): RouterRoute | undefined => {
+  const next = entries.slice(routeIndex).find(([[, route]]) => !route.isMiddleware);
+  return next ? next[0][1] : matchedRoute(entries, routeIndex)?.route;
+};
+
+// Static start of a path, up to its first param, wildcard (with the `/` before it) or optional group
+const staticPrefix = (path: string): string => /^[^:*{]*?(?=\/?\*|:|\{|$)/.exec(path)![0];
+
+// Request state carried into the dispatch resuming it once a lazy router is loaded:
+// the routes that already ran, and the param callbacks already called per param
+type ResumeState = {ran: Set<RouterRoute>; called: Map<string, Set<ParamHandler>>};
+
+// Loaders of the placeholders registered by `lazy()`, so mounting the router re-creates them
+const lazyLoaders = new WeakMap<Handler, () => Promise<Router<any>>>();
+
+/**
+ * Moves a matched mount prefix from `req.url` to `req.baseUrl`, like Express mounts do.
+ *
+ * @returns A function restoring both.
+ */
+const enterMount = (req: Request, matched: string) => {
+  const {baseUrl, url} = req;
+  const rest = url.slice(matched.length);
+  req.baseUrl = baseUrl + matched;
+  req.url = rest.startsWith('/') ? rest : `/${rest}`;
+  return () => {
+    [req.baseUrl, req.url] = [baseUrl, url];
+  };
+};
+
+/**
+ * Runs a parameter callback, settling once it calls `next()` or its `Promise` resolves.
+ */
+const runParamHandler = (callback: ParamHandler, req: Request, res: Response, value: string, name: string) =>
+  new Promise<void>((resolve, reject) => {
+    const result = callback(req, res, err => (err ? reject(err) : resolve()), value, name);
+    if (result instanceof Promise) result.then(() => resolve(), reject);
+  });
+
 /**
  * A lightweight, Express-compatible router built on top of a RegExp/Trie based matcher.
  *
+ * @template Parent - Parameters provided by the path this router is mounted at,
+ * merged into the inferred parameters of every route (see {@link PathParams}).
+ *
  * @remarks
  * This router mimics the Express API (`get`, `post`, `use`, etc.)
  * but internally uses a fast RegExp-based matcher for route lookups.
@@ -29,50 +184,165 @@ import {METHODS, METHOD_NAME_ALL, METHOD_NAME_ALL_LOWERCASE} from '../types';
  *
  * app.use(api.dispatch);
  * ```
+ *
+ * @example
+ * ```ts
+ * // Sub-router typed with the params of its mount point
+ * const posts = new Router<PathParams<'/users/:userId'>>();
+ * posts.get('/posts/:postId?', req => req.params); // { userId: string; postId?: string }
+ * api.route('/users/:userId', posts);
+ * ```
  */
-export class Router {
+export class Router<Parent = unknown> {
   routes: RouterRoute[] = [];
   #basePath = '/';
-  #path = '/';
+  #path: string | RegExp = '/';
+  #methods = new Set<string>();
+  #names = new Map<string, RouterRoute>();
+  #entries = new WeakMap<RouterRoute, [Handler, RouterRoute]>();
+  // Identifies the registration call routes come from (chained path-less calls continue it)
+  #registration: object = {};
+  #registrations = new WeakMap<RouterRoute, object>();
+  #scope: Handler[] = [];
+  #params = new Map<string, ParamHandler[]>();
+  #grouped = false;
+  #mounts: {prefix: string; pattern: RegExp; router: Router<any>}[] = [];
+  // Routes already run and params already resolved by requests re-dispatched once a lazy router is loaded
+  #resumed = new WeakMap<Request, ResumeState>();
+  // Routers a mounted route was declared in, from the innermost up to this one
+  #origins = new WeakMap<RouterRoute, Router<any>[]>();
+  // Mount prefix patterns of the route base paths, built on first use
+  #mountPatterns = new Map<string, RegExp>();
+  #errorHandler?: ErrorHandler;
+  #notFoundHandler?: Handler;
+  #options: Required<RouterOptions>;
   router: SmartRouter<[Handler, RouterRoute]>;
 
   /** Register a GET route. */
-  get!: (path: string, ...handlers: Handler[]) => this;
+  get!: RouteMethod<this, Parent>;
   /** Register a POST route. */
-  post!: (path: string, ...handlers: Handler[]) => this;
+  post!: RouteMethod<this, Parent>;
   /** Register a PUT route. */
-  put!: (path: string, ...handlers: Handler[]) => this;
+  put!: RouteMethod<this, Parent>;
   /** Register a DELETE route. */
-  delete!: (path: string, ...handlers: Handler[]) => this;
+  delete!: RouteMethod<this, Parent>;
   /** Register a PATCH route. */
-  patch!: (path: string, ...handlers: Handler[]) => this;
+  patch!: RouteMethod<this, Parent>;
   /** Register a HEAD route. */
-  head!: (path: string, ...handlers: Handler[]) => this;
+  head!: RouteMethod<this, Parent>;
   /** Register an OPTIONS route. */
-  options!: (path: string, ...handlers: Handler[]) => this;
+  options!: RouteMethod<this, Parent>;
   /** Register a route matching any HTTP method. */
-  all!: (path: string, ...handlers: Handler[]) => this;
+  all!: RouteMethod<this, Parent>;
 
-  constructor() {
+  /**
+   * Registers a named parameter converter, usable as `:name<converter>` in every router.
+   *
+   * Built-in converters: `int` (number), `slug`, `uuid` and `isodate` (`Date`).
+   * Matching uses the converter's pattern, and `req.params` exposes parsed values.
+   * To type them, augment {@link ParamConverters}.
+   *
+   * @param name - The converter name.
+   * @param converter - The pattern to match (non-capturing groups only) and the parse function.
+   *
+   * @example
+   * ```ts
+   * Router.registerConverter('hex', {pattern: '[0-9a-f]+', parse: v => parseInt(v, 16)});
+   * router.get('/colors/:rgb<hex>', req => req.params.rgb); // number
+   * ```
+   */
+  static registerConverter<T>(name: string, converter: Converter<T>): void {
+    registerConverter(name, converter);
+  }
+
+  /**
+   * Creates a router from controllers declared with decorators (`@Controller`, `@Get`, `@Use`, ...).
+   *
+   * Controller classes are instantiated without arguments; pass instances to inject dependencies.
+   *
+   * @param controllers - Controller classes or instances.
+   * @param options - Matching options (see {@link RouterOptions}).
+   * @returns A router with the routes of every controller, in order.
+   *
+   * @example
+   * ```ts
+   * @Controller('/users')
+   * class UsersController {
+   *   @Get('/:id')
+   *   show(req: Request) {
+   *     return ApiRes.ok(users.find(req.params.id));
+   *   }
+   * }
+   *
+   * app.use(Router.fromControllers([UsersController, new PostsController(db)]).dispatch);
+   * ```
+   */
+  static fromControllers(controllers: ControllerLike[], options?: RouterOptions): Router {
+    const router = new Router(options);
+    registerControllers(router, controllers);
+    return router;
+  }
+
+  /**
+   * @param options - Matching options (see {@link RouterOptions}). Routes mounted
+   * with `route()` are matched using the options of the router they are mounted on.
+   */
+  constructor(options: RouterOptions = {}) {
+    this.#options = {
+      strategy: 'smart',
+      caseSensitive: true,
+      strict: true,
+      mergeParams: true,
+      redirectTrailingSlash: false,
+      cacheSize: 0,
+      ...options,
+    };
     // Dynamically assign route registration methods
     const allMethods = [...METHODS, METHOD_NAME_ALL_LOWERCASE];
     allMethods.forEach(method => {
-      this[method] = (arg1: string | Handler, ...args: Handler[]) => {
-        if (typeof arg1 === 'string') {
-          this.#path = arg1;
-        } else {
-          this.#addRoute(method, this.#path, arg1);
-        }
-        args.forEach(handler => this.#addRoute(method, this.#path, handler));
-        return this as any;
-      };
+      this[method] = (arg1: string | RegExp | Handler, ...args: any[]) => this.#register(method, arg1, ...args);
     });
     // --- dynamic router assignment ---
     this.router = new SmartRouter({
-      routers: [new RegExpRouter(), new TrieRouter()],
+      routers: createMatchers(this.#options.strategy, this.#options.caseSensitive),
+      cacheSize: this.#options.cacheSize,
     });
   }
 
+  /**
+   * Registers a route for any HTTP method, including extension methods
+   * without a helper (e.g. WebDAV's `PROPFIND`, `PURGE`, `SEARCH` or `QUERY`).
+   *
+   * @param method - The HTTP method, case-insensitive.
+   * @param path - The route path.
+   * @param handlers - One or more handlers, optionally preceded by {@link RouteOptions}.
+   * @returns This router instance (for chaining).
+   *
+   * @example
+   * ```ts
+   * router.method('PROPFIND', '/dav/:file', propfindHandler);
+   * router.method('purge', '/cache/*', purgeHandler);
+   * ```
+   */
+  method<P extends string>(method: string, path: P, ...handlers: Handler<MergeParams<Parent, PathParams<P>>>[]): this;
+  method<P extends string>(
+    method: string,
+    path: P,
+    options: RouteOptions,
+    ...handlers: Handler<MergeParams<Parent, PathParams<P>>>[]
+  ): this;
+  method(method: string, path: RegExp, ...handlers: Handler<MergeParams<Parent, Params>>[]): this;
+  method(
+    method: string,
+    path: RegExp,
+    options: RouteOptions,
+    ...handlers: Handler<MergeParams<Parent, Params>>[]
+  ): this;
+  method(method: string, path: string | RegExp, ...args: any[]): this {
+    if (!METHOD_TOKEN.test(method)) throw new Error(`Invalid HTTP method: ${method}`);
+    return this.#register(method, path, ...args);
+  }
+
   /**
    * Register a route for one or more HTTP methods and paths.
    *
@@ -90,6 +360,8 @@ export class Router {
     for (const p of [path].flat()) {
       this.#path = p;
       for (const m of [method].flat()) {
+        this.#registration = {};
+        this.#addScope(m.toUpperCase(), this.#path);
         handlers.forEach(handler => this.#addRoute(m.toUpperCase(), this.#path, handler));
       }
     }
@@ -101,7 +373,8 @@ export class Router {
    * Works similarly to `app.use()` in Express.
    *
    * - If called with a path: attaches handlers only for that path.
-   * - If called without a path: applies globally to all requests.
+   * - If called without a path: applies globally to all requests
+   *   (inside a `group()` callback: only to the group's routes declared afterwards).
    *
    * @param arg1 - Path string or the first handler function.
    * @param handlers - Additional handler functions.
@@ -114,27 +387,79 @@ export class Router {
    * ```
    */
   use = (arg1: string | Handler, ...handlers: Handler[]) => {
+    this.#registration = {};
     if (typeof arg1 === 'string') {
       this.#path = arg1;
+    } else if (this.#grouped) {
+      this.#scope.push(arg1, ...handlers);
+      return this;
     } else {
       this.#path = '*';
       handlers.unshift(arg1);
     }
-    handlers.forEach(handler => this.#addRoute(METHOD_NAME_ALL, this.#path, handler));
+    handlers.forEach(handler => this.#addRoute(METHOD_NAME_ALL, this.#path, handler, {}, true));
     return this;
   };
 
   /**
-   * Mounts another `Router` instance at a given path prefix.
+   * Declares a group of routes sharing a path prefix and scoped middleware.
    *
-   * This allows modular route composition (similar to Express `.use('/api', router)`).
+   * The middleware only runs for routes declared inside the callback; groups
+   * can be nested, merging both prefixes and middleware.
    *
-   * @param path - Path prefix at which to mount the sub-router.
-   * @param router - Another Router instance to mount.
+   * @param path - Path prefix for every route in the group.
+   * @param args - Middleware handlers, followed by the callback declaring the routes.
    * @returns This router instance.
    *
    * @example
    * ```ts
+   * router.group('/admin', authMiddleware, r => {
+   *   r.get('/stats', statsHandler); // GET /admin/stats (auth)
+   *   r.group('/users/:id', r => r.post('/ban', banHandler)); // POST /admin/users/:id/ban (auth)
+   * });
+   * ```
+   */
+  group<P extends string>(
+    path: P,
+    ...args: [
+      ...middleware: Handler<MergeParams<Parent, PathParams<P>>>[],
+      callback: (router: Router<MergeParams<Parent, PathParams<P>>>) => void,
+    ]
+  ): this {
+    const callback = args.pop() as (router: this) => void;
+    const [basePath, scope, grouped] = [this.#basePath, this.#scope, this.#grouped];
+
+    this.#basePath = mergePath(basePath, path);
+    this.#scope = [...scope, ...(args as any[])];
+    this.#grouped = true;
+    try {
+      callback(this);
+    } finally {
+      [this.#basePath, this.#scope, this.#grouped] = [basePath, scope, grouped];
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns a builder registering handlers for a single path, or mounts another
+   * `Router` instance at a given path prefix when `router` is given.
+   *
+   * Mounting allows modular route composition (similar to Express `.use('/api', router)`).
+   * While the mounted handlers run, `req.baseUrl` ends with the matched prefix and `req.url`
+   * is relative to it, as in Express sub-routers.
+   *
+   * @param path - The route path, or the prefix at which to mount the sub-router.
+   * @param router - Another Router instance to mount.
+   * @returns A {@link RouteBuilder} scoped to `path`, or this router instance when mounting.
+   *
+   * @example
+   * ```ts
+   * router.route('/users/:id').get(show).put(update).delete(destroy);
+   * ```
+   *
+   * @example
+   * ```ts
    * const api = new Router();
    * api.get('/user', (req, res) => res.send('user'));
    *
@@ -142,22 +467,498 @@ export class Router {
    * app.route('/api', api); // Mounts as /api/user
    * ```
    */
-  route(path: string, router: Router): this {
+  route<P extends string>(path: P): RouteBuilder<MergeParams<Parent, PathParams<P>>>;
+  route(path: string, router: Router<any>): this;
+  route(path: string, router?: Router<any>): this | RouteBuilder<any> {
+    if (!router) return this.#routeBuilder(path);
     if (router === this) throw new Error('Cannot mount router onto itself');
-    const base = mergePath(this.#basePath, path);
-    router.routes.map(r => {
-      this.#addRoute(r.method, mergePath(base, r.path), r.handler);
+    const prefix = mergePath(this.#basePath, path);
+    this.#mounts.push({prefix, pattern: this.#mountRegExp(prefix), router});
+    this.#mounts.sort((a, b) => b.prefix.length - a.prefix.length);
+
+    const scoped = new Set<string>();
+    const registrations = new Map<object | undefined, object>();
+    router.routes.forEach(r => {
+      const loadRouter = lazyLoaders.get(r.handler);
+      if (loadRouter) {
+        this.lazy(mergePath(path, r.path.slice(0, -'/*'.length)), loadRouter);
+        return;
+      }
+      const subPath = r.pattern ? mergeRegExpPath(expandConverters(path), r.pattern) : mergePath(path, r.path);
+      const registration = router.#registrations.get(r);
+      if (!registrations.has(registration)) registrations.set(registration, {});
+      this.#registration = registrations.get(registration)!;
+      // Group middleware runs once, ahead of each mounted endpoint
+      if (this.#scope.length && !r.isMiddleware && !scoped.has(`${r.method} ${r.path}`)) {
+        scoped.add(`${r.method} ${r.path}`);
+        this.#addScope(r.method, subPath);
+      }
+      const route = this.#addRoute(r.method, subPath, r.handler, {name: r.name, meta: r.meta}, r.isMiddleware);
+      route.basePath = mergePath(prefix, r.basePath);
+      if (r.isScoped) route.isScoped = true;
+      this.#origins.set(route, [...(router.#origins.get(r) ?? [router]), this]);
     });
 
     return this;
   }
 
+  /**
+   * Registers the REST routes of a resource for the actions its controller implements
+   * (see {@link ResourceAction}), named `<name>.<action>` and tagged with
+   * `{resource, action}` metadata.
+   *
+   * @param path - The collection path; nest resources with a parent param (e.g. `/users/:userId/posts`).
+   * @param controller - Handlers per action; methods are called with the controller as `this`.
+   * @param options - Actions to register, the member param name, and the route name prefix and metadata.
+   * @returns This router instance (for chaining).
+   *
+   * @example
+   * ```ts
+   * router.resource('/users', users, {param: 'userId'}); // users.index, users.show, ...
+   * router.resource('/users/:userId/posts', posts, {only: ['index', 'show']}); // users.posts.index, ...
+   * router.url('users.show', {userId: 42}); // '/users/42'
+   * ```
+   */
+  resource<P extends string, K extends string = 'id'>(
+    path: P,
+    controller: ResourceController<
+      MergeParams<Parent, PathParams<P>>,
+      MergeParams<Parent, PathParams<P> & Record<K, string>>
+    >,
+    options: ResourceOptions<K> = {},
+  ): this {
+    const {only, except = [], param = 'id', meta} = options;
+    const name =
+      options.name ??
+      path
+        .split('/')
+        .filter(s => s && !/^[:*{]/.test(s))
+        .join('.');
+    const memberPath = mergePath(path, `:${param}`);
+    RESOURCE_ACTIONS.forEach(([action, method, member]) => {
+      const handler = controller[action] as Handler | undefined;
+      if (!handler || (only && !only.includes(action)) || except.includes(action)) return;
+      const routeOptions = {name: name ? `${name}.${action}` : action, meta: {...meta, resource: name, action}};
+      this.#register(method, member ? memberPath : path, routeOptions, handler.bind(controller));
+    });
+    return this;
+  }
+
+  /**
+   * Mounts a plain Express router or app at a given path prefix, to migrate incrementally.
+   *
+   * Matching requests are delegated with `req.baseUrl` and `req.url` rewritten like Express
+   * mounts do, and restored once the mounted handler calls `next()`.
+   *
+   * @param path - Path prefix at which to mount the handler.
+   * @param target - An `express.Router()`, an Express app or any Express middleware.
+   * @returns This router instance (for chaining).
+   *
+   * @example
+   * ```ts
+   * const legacy = express.Router();
+   * legacy.get('/users', (req, res) => res.json(users)); // served at /legacy/users
+   *
+   * router.mount('/legacy', legacy);
+   * ```
+   */
+  mount(path: string, target: RequestHandler | Application): this {
+    // Relative to the base path, which is already moved to `req.baseUrl` (see `dispatch`)
+    const pattern = this.#mountRegExp(mergePath('/', path));
+
+    const mounted: Handler = (req, res, next) => {
+      const {app} = req;
+      const restore = enterMount(req, pattern.exec(req.path)?.[0] ?? '');
+
+      (target as RequestHandler)(req, res, err => {
+        restore();
+        // Express apps swap the request and response prototypes for their own
+        if (app && req.app !== app) {
+          Object.setPrototypeOf(req, (app as any).request);
+          Object.setPrototypeOf(res, (app as any).response);
+        }
+        next(err);
+      });
+    };
+    this.#registration = {};
+    this.#addRoute(METHOD_NAME_ALL, mergePath(path, '*'), mounted, {}, true);
+    return this;
+  }
+
+  /**
+   * Mounts a sub-router loaded on the first request to its prefix, e.g. from a dynamic import.
+   *
+   * The prefix is registered right away, and the loaded routes take its place in the route table.
+   * Concurrent first requests wait for the same load, then continue with the loaded routes.
+   * A failed load is passed to `next(err)` and retried later.
+   *
+   * @param path - Path prefix at which to mount the sub-router.
+   * @param load - Resolves to the sub-router, or a module whose default export is the sub-router.
+   * @returns This router instance (for chaining).
+   *
+   * @example
+   * ```ts
+   * router.lazy('/admin', () => import('./admin.routes'));
+   * ```
+   */
+  lazy(path: string, load: () => Promise<Router<any> | {default: Router<any>}>): this {
+    const context = [this.#basePath, this.#scope] as const;
+    let loading: Promise<Router<any>> | undefined;
+    const loadRouter = () =>
+      (loading ??= load().then(
+        loaded => (loaded instanceof Router ? loaded : loaded.default),
+        err => {
+          loading = undefined;
+          throw err;
+        },
+      ));
+
+    // Mounts the loaded router; `dispatch()` then resumes the request with its routes
+    const placeholder: Handler = (req, res, next) => {
+      loadRouter().then(router => {
+        // Concurrent requests: the first one to resume mounts the router
+        if (this.routes.includes(route)) {
+          this.#inContext(context, () => {
+            // Routes registered after lazy() keep matching after the loaded ones
+            const later = this.routes.slice(this.routes.indexOf(route) + 1);
+            this.#removeRoutes([route, ...later]);
+            this.route(path, router);
+            this.#restoreRoutes(later);
+          });
+        }
+        next();
+      }, next);
+    };
+    lazyLoaders.set(placeholder, loadRouter);
+
+    this.#registration = {};
+    const route = this.#addRoute(METHOD_NAME_ALL, mergePath(path, '*'), placeholder, {}, true);
+    return this;
+  }
+
+  /**
+   * Removes every handler registered for a method and path, including after the first request.
+   *
+   * The matcher is updated in place (`TrieRouter`) or recompiled on the next
+   * match (`RegExpRouter`); requests already being handled are not affected.
+   *
+   * @param method - The HTTP method the route was registered with (`'ALL'` for `all()`/`use()`).
+   * @param path - The route path (or RegExp path), relative to this router.
+   * @returns This router instance (for chaining).
+   *
+   * @example
+   * ```ts
+   * router.remove('GET', '/beta');
+   * // Replace a route
+   * router.remove('GET', '/beta').get('/beta', betaV2);
+   * ```
+   */
+  remove(method: string, path: string | RegExp): this {
+    method = method.toUpperCase();
+    const [fullPath] = this.#resolvePath(path);
+
+    const removed = this.routes.filter(r => r.method === method && r.path === fullPath);
+    if (!removed.length) return this;
+
+    this.#removeRoutes(removed);
+    return this;
+  }
+
+  /**
+   * Drops routes from the route table and the matcher.
+   */
+  #removeRoutes(removed: RouterRoute[]) {
+    this.routes.splice(0, this.routes.length, ...this.routes.filter(r => !removed.includes(r)));
+    removed.forEach(r => {
+      const matcherPaths = r.pattern ? [r.pattern] : toMatcherPaths(r.path);
+      matcherPaths.forEach(p => this.router.remove(r.method, p, this.#entries.get(r)!));
+    });
+
+    this.#methods = new Set(this.routes.map(r => r.method).filter(m => m !== METHOD_NAME_ALL));
+    for (const [name, route] of this.#names) {
+      if (!removed.includes(route)) continue;
+      const next = this.routes.find(r => r.name === name);
+      if (next) this.#names.set(name, next);
+      else this.#names.delete(name);
+    }
+  }
+
+  /**
+   * Registers routes dropped by `#removeRoutes()` again, after the current ones.
+   */
+  #restoreRoutes(routes: RouterRoute[]) {
+    routes.forEach(r => {
+      const matcherPaths = r.pattern ? [r.pattern] : toMatcherPaths(r.path);
+      matcherPaths.forEach(p => this.router.add(r.method, p, this.#entries.get(r)!));
+      this.routes.push(r);
+      if (r.method !== METHOD_NAME_ALL) this.#methods.add(r.method);
+      if (r.name && !this.#names.has(r.name)) this.#names.set(r.name, r);
+    });
+  }
+
+  /**
+   * Registers a callback for a route parameter, like Express `router.param()`.
+   *
+   * The callback runs once per request, before the first handler whose route
+   * declares the parameter, and receives its decoded value. It applies to the routes
+   * declared in this router, including the ones of routers mounted into it via `route()`;
+   * when several routers define one, the outermost runs first.
+   *
+   * @param name - The parameter name (e.g. `'userId'` for `/users/:userId{[0-9]+}`).
+   * @param callback - The callback; throw (e.g. an `HttpError`) to skip the route.
+   * @returns This router instance.
+   *
+   * @example
+   * ```ts
+   * router.param('userId', async (req, res, next, id) => {
+   *   req.user = await Users.find(id);
+   *   if (!req.user) throw new NotFoundError(`User ${id} not found`);
+   *   next();
+   * });
+   * router.get('/users/:userId', req => req.user);
+   * ```
+   */
+  param(name: string, callback: ParamHandler): this {
+    this.#params.set(name, [...(this.#params.get(name) ?? []), callback]);
+    return this;
+  }
+
+  /**
+   * Registers an error handler for this router and every router mounted under it.
+   *
+   * Errors raised by handlers, middleware or the router itself (e.g. `405`) are
+   * handled by the innermost mounted router owning the request path that has
+   * an error handler. Calling `next(err)` delegates to the enclosing router,
+   * and ultimately to Express.
+   *
+   * @param handler - The error handler; its return value is sent like a route handler's.
+   * @returns This router instance.
+   *
+   * @example
+   * ```ts
+   * api.onError((err, req, res, next) => {
+   *   if (HttpError.isHttpError(err)) return err.toJson(res);
+   *   next(err);
+   * });
+   * ```
+   */
+  onError(handler: ErrorHandler): this {
+    this.#errorHandler = handler;
+    return this;
+  }
+
+  /**
+   * Registers a handler for requests that match no endpoint of this router
+   * (or of a router mounted under it without its own not-found handler).
+   *
+   * @param handler - The handler to run; its return value is sent automatically.
+   * @returns This router instance.
+   *
+   * @example
+   * ```ts
+   * api.notFound(req => new NotFoundError(`No route for ${req.path}`).body);
+   * ```
+   */
+  notFound(handler: Handler): this {
+    this.#notFoundHandler = handler;
+    return this;
+  }
+
+  /**
+   * Builds the URL of a named route.
+   *
+   * Parameters are URL-encoded and validated against regex constraints
+   * (e.g. `:id{[0-9]+}`); mount prefixes added via `route()` are included.
+   *
+   * @param name - The route name given at registration.
+   * @param params - Values for the route parameters.
+   * @param options - Optional query string values.
+   * @returns The generated URL.
+   * @throws {Error} If the name is unknown, the route has a RegExp path, a parameter is missing, or a value is invalid.
+   *
+   * @example
+   * ```ts
+   * router.get('/users/:id', {name: 'users.show'}, handler);
+   * router.url('users.show', {id: 42}, {query: {tab: 'posts'}}); // '/users/42?tab=posts'
+   * ```
+   */
+  url(name: string, params: Record<string, string | number> = {}, options: {query?: UrlQuery} = {}): string {
+    const route = this.#names.get(name);
+    if (!route) throw new Error(`Unknown route name: ${name}`);
+    if (route.pattern) throw new Error(`Cannot generate URLs for RegExp path: ${route.path}`);
+
+    const path = fillPath(expandConverters(resolveUrlPath(route.path, params)), params);
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value === undefined || value === null) continue;
+      [value].flat().forEach(v => search.append(key, String(v)));
+    }
+    const query = search.toString();
+    return query ? `${path}?${query}` : path;
+  }
+
+  /**
+   * Checks the route table for mistakes.
+   *
+   * Reports routes registered twice, routes shadowed by an earlier route
+   * (e.g. `/users/me` after `/users/:id`), params named differently at the
+   * same position, and paths forcing `SmartRouter` to fall back from
+   * `RegExpRouter` to `TrieRouter`.
+   *
+   * @param options.strict - Throw a {@link RouteLintError} if any issue is found (e.g. at boot).
+   * @returns The issues found, as structured {@link RouteLintIssue} objects.
+   *
+   * @example
+   * ```ts
+   * expect(router.lint()).toEqual([]);
+   * router.lint({strict: true}); // throws on issues
+   * ```
+   */
+  lint(options: {strict?: boolean} = {}): RouteLintIssue[] {
+    const issues = lintRoutes(this.routes, r => this.#registrations.get(r), this.#options);
+    if (options.strict && issues.length) throw new RouteLintError(issues);
+    return issues;
+  }
+
+  /**
+   * Returns a grouped snapshot of the route table.
+   *
+   * Handlers sharing a method and path are merged into one entry, middleware
+   * registered via `use()` is distinguished from endpoints, and the matcher
+   * selected by `SmartRouter` is reported once it has been built.
+   *
+   * @returns A JSON-serializable {@link RouteTable}.
+   *
+   * @example
+   * ```ts
+   * router.inspect().routes;
+   * // => [{method: 'GET', path: '/users/:id', type: 'endpoint', handlers: ['show']}]
+   * ```
+   */
+  inspect(): RouteTable {
+    return inspectRoutes(this.routes, this.router.isBuilt ? this.router.activeRouter.name : null);
+  }
+
+  /**
+   * Prints the route table, either as a tree or as JSON.
+   *
+   * @param format - `'tree'` for a human-readable dump, `'json'` for a diffable snapshot.
+   * @param logger - Function receiving the rendered output (defaults to `console.log`).
+   * @returns The rendered output.
+   *
+   * @example
+   * ```ts
+   * router.printRoutes(); // tree on stdout at boot
+   * fs.writeFileSync('routes.json', router.printRoutes('json', () => {}));
+   * ```
+   */
+  printRoutes(format: 'tree' | 'json' = 'tree', logger: (output: string) => void = console.log): string {
+    const table = this.inspect();
+    const output = format === 'json' ? JSON.stringify(table, null, 2) : formatRouteTree(table);
+    logger?.(output);
+    return output;
+  }
+
+  /**
+   * Creates the builder returned by `route(path)`, registering into the current group.
+   */
+  #routeBuilder(path: string): RouteBuilder<any> {
+    const context = [this.#basePath, this.#scope] as const;
+    const middleware: Handler[] = [];
+    const builder = {} as RouteBuilder<any>;
+    const register = (method: string, args: any[]) => {
+      const options = typeof args[0] === 'object' ? [args.shift()] : [];
+      this.#inContext(context, () => this.#register(method, path, ...options, ...middleware, ...args));
+      return builder;
+    };
+
+    [...METHODS, METHOD_NAME_ALL_LOWERCASE].forEach(method => {
+      builder[method] = (...args: any[]) => register(method, args);
+    });
+    builder.method = (method: string, ...args: any[]) => {
+      if (!METHOD_TOKEN.test(method)) throw new Error(`Invalid HTTP method: ${method}`);
+      return register(method, args);
+    };
+    builder.use = (...handlers: Handler[]) => {
+      middleware.push(...handlers);
+      return builder;
+    };
+    return builder;
+  }
+
+  /**
+   * Runs `fn` with the base path and group middleware captured earlier, e.g. by `lazy()`.
+   */
+  #inContext(context: readonly [string, Handler[]], fn: () => void) {
+    const current = [this.#basePath, this.#scope] as const;
+    [this.#basePath, this.#scope] = context;
+    try {
+      fn();
+    } finally {
+      [this.#basePath, this.#scope] = current;
+    }
+  }
+
+  /**
+   * Shared implementation of the method registration helpers (`get`, `post`, ..., `method()`).
+   *
+   * A path-less call continues the last registered path.
+   */
+  #register(method: string, arg1: string | RegExp | Handler, ...args: any[]): this {
+    const options: RouteOptions = typeof args[0] === 'object' ? args.shift() : {};
+    if (typeof arg1 !== 'function') {
+      this.#path = arg1;
+      this.#registration = {};
+      this.#addScope(method, this.#path, options);
+    } else {
+      args.unshift(arg1);
+      // Chained calls continue the registration: scope middleware runs once per method
+      const continued = this.routes.some(
+        r => this.#registrations.get(r) === this.#registration && r.method === method.toUpperCase(),
+      );
+      if (!continued) this.#addScope(method, this.#path, options);
+    }
+    args.forEach(handler => this.#addRoute(method, this.#path, handler, options));
+    return this;
+  }
+
+  /**
+   * Registers the middleware of the enclosing groups ahead of a route's handlers.
+   */
+  #addScope(method: string, path: string | RegExp, options: RouteOptions = {}) {
+    this.#scope.forEach(handler => {
+      this.#addRoute(method, path, handler, options).isScoped = true;
+    });
+  }
+
   /**
    * Internal method that registers a route into the internal matcher.
+   *
+   * @returns The registered route.
    */
-  #addRoute(method: string, path: string, handler: Handler): this {
+  #addRoute(
+    method: string,
+    path: string | RegExp,
+    handler: Handler,
+    options: RouteOptions = {},
+    isMiddleware = false,
+  ): RouterRoute {
     method = method.toUpperCase();
-    const fullPath = mergePath(this.#basePath, path);
+    const [fullPath, pattern] = this.#resolvePath(path);
+    if (pattern && (this.#options.strategy === 'regexp' || this.#options.strategy === 'trie')) {
+      throw new Error(`RegExp paths are not supported by the "${this.#options.strategy}" strategy: ${fullPath}`);
+    }
+    // Matchers understand `:name{pattern}` only (throws on unknown converters),
+    // and register Express 5 optional groups once per combination
+    const matcherPaths = pattern ? [pattern] : toMatcherPaths(fullPath);
+    if (this.#options.strategy === 'regexp') this.#assertRegExpSupported(method, fullPath, matcherPaths as string[]);
+
+    if (options.name) {
+      const named = this.#names.get(options.name);
+      if (named && named.path !== fullPath) {
+        throw new Error(`Route name "${options.name}" is already used by ${named.path}`);
+      }
+    }
 
     const route: RouterRoute = {
       basePath: this.#basePath,
@@ -165,23 +966,40 @@ export class Router {
       method,
       handler,
     };
+    if (isMiddleware) route.isMiddleware = true;
+    if (pattern) {
+      route.pattern = pattern;
+    } else {
+      bindConverters(route);
+      bindSegments(route);
+      bindWildcards(route);
+    }
+    this.#registrations.set(route, this.#registration);
+    if (options.name) {
+      route.name = options.name;
+      if (!this.#names.has(options.name)) this.#names.set(options.name, route);
+    }
+    if (options.meta) route.meta = options.meta;
 
-    this.router.add(method, path, [handler, route]);
+    const entry: [Handler, RouterRoute] = [handler, route];
+    this.#entries.set(route, entry);
+    matcherPaths.forEach(p => this.router.add(method, p, entry));
     this.routes.push(route);
+    if (method !== METHOD_NAME_ALL) this.#methods.add(method);
 
-    return this;
+    return route;
   }
 
   /**
    * Lazily attaches `req.params` and `req.param()` helpers to a request object.
    */
-  #attachParams(req: any, result: any) {
+  #attachParams(req: any, result: any, path: string) {
     if (req._param) return; // Already attached
 
-    const instance = new Param(req, result);
+    const instance = new Param(req, result, path);
     req._param = instance;
 
-    const parentParams = req.params ? {...req.params} : {};
+    const parentParams = this.#options.mergeParams && req.params ? {...req.params} : {};
 
     Object.defineProperty(req, 'params', {
       configurable: true,
@@ -203,13 +1021,289 @@ export class Router {
     req.param = (key: string) => instance.param(key) ?? parentParams[key];
   }
 
+  /**
+   * Resolves the routers owning a path, from the innermost mounted router up to this one.
+   */
+  #scopes(path: string): Router<any>[] {
+    for (const {pattern, router} of this.#mounts) {
+      const m = pattern.exec(path);
+      if (m) return [...router.#scopes(path.slice(m[0].length) || '/'), this];
+    }
+    return [this];
+  }
+
+  /**
+   * Collects the parameter callbacks applying to a route: the ones of the routers
+   * it was declared in, outermost first.
+   */
+  #paramHandlers(route: RouterRoute): Map<string, ParamHandler[]> | undefined {
+    let handlers: Map<string, ParamHandler[]> | undefined;
+    for (const router of [...(this.#origins.get(route) ?? [this])].reverse()) {
+      for (const [name, callbacks] of router.#params) {
+        handlers ||= new Map();
+        handlers.set(name, [...(handlers.get(name) ?? []), ...callbacks]);
+      }
+    }
+    return handlers;
+  }
+
+  /**
+   * Wraps the matched handlers whose route declares a parameter with a callback,
+   * so pending callbacks run right before them, once per request.
+   */
+  #withParamHandlers(
+    entries: Result<[Handler, RouterRoute]>[0],
+    called: ResumeState['called'],
+  ): Result<[Handler, RouterRoute]>[0] {
+    return entries.map(entry => {
+      const [[handler, route], paramMap] = entry;
+      const handlers = this.#paramHandlers(route);
+      if (!handlers) return entry;
+      const names = declaredParams(route, Object.keys(paramMap)).filter(name => handlers.has(name));
+      if (!names.length) return entry;
+
+      const wrapped: Handler = async (req, res, next) => {
+        for (const name of names) {
+          if (!called.has(name)) called.set(name, new Set());
+          for (const callback of handlers.get(name)!) {
+            if (called.get(name)!.has(callback)) continue;
+            called.get(name)!.add(callback);
+            await runParamHandler(callback, req, res, req.param(name)!, name);
+          }
+        }
+        return handler(req, res, next);
+      };
+      return [[wrapped, route], paramMap];
+    }) as Result<[Handler, RouterRoute]>[0];
+  }
+
+  /**
+   * Wraps the matched lazy placeholders so that, once their router is mounted, a new dispatch
+   * matches the loaded routes and ends the request in place of this one (`exit`), skipping
+   * the routes that already ran and the param callbacks already called.
+   */
+  #withLazy(
+    entries: Result<[Handler, RouterRoute]>[0],
+    exit: NextFunction,
+    resumed: ResumeState,
+  ): Result<[Handler, RouterRoute]>[0] {
+    return entries.map((entry, i) => {
+      const [[handler, route], paramMap] = entry;
+      if (!lazyLoaders.has(route.handler)) return entry;
+
+      const wrapped: Handler = (req, res, next) =>
+        handler(req, res, err => {
+          if (err) return next(err);
+          const ran = new Set([...resumed.ran, ...entries.slice(0, i).map(([[, r]]) => r)]);
+          this.#resumed.set(req, {ran, called: resumed.called});
+          this.dispatch(req, res, exit);
+        });
+      return [[wrapped, route], paramMap];
+    }) as Result<[Handler, RouterRoute]>[0];
+  }
+
+  /**
+   * Wraps the matched handlers of routes with a base path (mounted with `route()` or declared
+   * in a group), so they see the matched prefix in `req.baseUrl` and the rest in `req.url`,
+   * like handlers of Express sub-routers. Both are restored when the handler calls `next()` or throws.
+   */
+  #withMounts(entries: Result<[Handler, RouterRoute]>[0]): Result<[Handler, RouterRoute]>[0] {
+    return entries.map(entry => {
+      const [[handler, route], paramMap] = entry;
+      // Lazy placeholders re-dispatch the request, which needs the unchanged URL
+      if (route.basePath === '/' || lazyLoaders.has(route.handler)) return entry;
+
+      if (!this.#mountPatterns.has(route.basePath)) {
+        this.#mountPatterns.set(route.basePath, this.#mountRegExp(route.basePath));
+      }
+      const pattern = this.#mountPatterns.get(route.basePath)!;
+
+      const wrapped: Handler = (req, res, next) => {
+        const prefix = pattern.exec(req.path)?.[0];
+        if (!prefix) return handler(req, res, next);
+        const restore = enterMount(req, prefix);
+        try {
+          const result = handler(req, res, err => {
+            restore();
+            next(err);
+          });
+          return result instanceof Promise
+            ? result.catch(err => {
+                restore();
+                throw err;
+              })
+            : result;
+        } catch (err) {
+          restore();
+          throw err;
+        }
+      };
+      return [[wrapped, route], paramMap];
+    }) as Result<[Handler, RouterRoute]>[0];
+  }
+
+  /**
+   * Passes an error through the scoped error handlers, falling back to `next(err)`.
+   */
+  #handleError(err: unknown, req: Request, res: Response, next: NextFunction, path: string) {
+    const handlers = this.#scopes(path)
+      .map(router => router.#errorHandler)
+      .filter(h => h !== undefined);
+
+    let i = 0;
+    const run = (error: unknown): void => {
+      const errorHandler = handlers[i++];
+      if (!errorHandler) return next(error);
+      const pass = (e?: unknown) => (e === undefined ? next() : run(e));
+      try {
+        const result = errorHandler(error, req, res, pass);
+        if (result instanceof Promise) result.then(v => handleResult(v, res)).catch(run);
+        else handleResult(result, res);
+      } catch (e) {
+        run(e);
+      }
+    };
+    run(err);
+  }
+
+  /**
+   * Runs the innermost scoped not-found handler, falling back to `next()`.
+   */
+  #handleNotFound(req: Request, res: Response, next: NextFunction, path: string) {
+    const notFound = this.#scopes(path)
+      .map(router => router.#notFoundHandler)
+      .find(h => h !== undefined);
+    if (!notFound) return next();
+    handler(notFound)(req, res, err => (err ? this.#handleError(err, req, res, next, path) : next()));
+  }
+
+  /**
+   * Checks that `RegExpRouter` can match a new path along with the registered ones, e.g. not
+   * `/users/me` next to `/users/:id`, nor `/docs/readme{.:ext}` (the static `readme` and the
+   * embedded param share a segment), so the table fails at registration rather than on every request.
+   */
+  #assertRegExpSupported(method: string, path: string, matcherPaths: string[]) {
+    // Only the matchers of this method (every method for `ALL`) get the new path, and it can only
+    // conflict with the paths it does not part from before either one gets dynamic
+    const prefix = staticPrefix(path);
+    const routes = this.routes.filter(r => {
+      if (method !== METHOD_NAME_ALL && r.method !== method && r.method !== METHOD_NAME_ALL) return false;
+      const other = staticPrefix(r.path);
+      return prefix.startsWith(other) || other.startsWith(prefix);
+    });
+    try {
+      checkRoutes([
+        ...routes.flatMap(r => toMatcherPaths(r.path).map(p => [r.method, p] as [string, string])),
+        ...matcherPaths.map(p => [method, p] as [string, string]),
+      ]);
+    } catch (e) {
+      if (!(e instanceof UnsupportedPathError)) throw e;
+      throw new Error(`Path is not supported by the "regexp" strategy: ${path} (use "trie" or "smart")`);
+    }
+  }
+
+  /**
+   * Resolves a path relative to this router into the full route path,
+   * along with the full RegExp for RegExp paths (the route path is then its string form).
+   */
+  #resolvePath(path: string | RegExp): [string, RegExp?] {
+    if (typeof path === 'string') return [this.#trimSlash(mergePath(this.#basePath, path))];
+    const pattern = mergeRegExpPath(expandConverters(this.#basePath), path);
+    return [String(pattern), pattern];
+  }
+
+  /**
+   * Builds the RegExp matching the start of the paths under a mount prefix.
+   */
+  #mountRegExp(prefix: string): RegExp {
+    // One alternative per optional group combination, longest first
+    const source = toMatcherPaths(prefix)
+      .reverse()
+      .map(p => buildMountRegExp(p).source)
+      .join('|');
+    return new RegExp(source, this.#options.caseSensitive ? '' : 'i');
+  }
+
+  /**
+   * Drops the trailing slash of a path unless the router is strict.
+   */
+  #trimSlash(path: string): string {
+    return !this.#options.strict && path.length > 1 && path.endsWith('/') ? path.slice(0, -1) : path;
+  }
+
+  /**
+   * Redirects to the path with its trailing slash toggled, if that path has an endpoint for the method.
+   *
+   * @returns Whether a redirect was sent.
+   */
+  #redirectSlash(req: Request, res: Response, method: string, path: string): boolean {
+    if (!this.#options.redirectTrailingSlash || path === '/') return false;
+
+    const target = path.endsWith('/') ? path.slice(0, -1) : `${path}/`;
+    if (!this.#hasEndpoint(this.router.match(method, target))) return false;
+
+    const search = req.url.indexOf('?');
+    const status = method === 'GET' ? HttpStatus.MOVED_PERMANENTLY : HttpStatus.PERMANENT_REDIRECT;
+    res.redirect(status, req.baseUrl + target + (search === -1 ? '' : req.url.slice(search)));
+    return true;
+  }
+
+  /**
+   * Checks whether a match result contains at least one endpoint (non-middleware) route.
+   */
+  #hasEndpoint = (result: Result<[Handler, RouterRoute]>): boolean =>
+    result[0].some(([[, route]]) => !route.isMiddleware);
+
+  /**
+   * Lists the methods that have an endpoint registered for the given path.
+   *
+   * `HEAD` is implied by `GET`, and `OPTIONS` is always answered by the router.
+   */
+  #allowedMethods(path: string): string[] {
+    const allowed: string[] = [];
+    for (const method of this.#methods) {
+      if (this.#hasEndpoint(this.router.match(method, path))) allowed.push(method);
+    }
+    if (!allowed.length) return allowed;
+    if (allowed.includes('GET') && !allowed.includes('HEAD')) allowed.splice(allowed.indexOf('GET') + 1, 0, 'HEAD');
+    if (!allowed.includes('OPTIONS')) allowed.push('OPTIONS');
+    return allowed;
+  }
+
+  /**
+   * Runs once the matched stack is exhausted without sending a response.
+   *
+   * - `OPTIONS` requests are answered with `204` and an `Allow` header.
+   * - Paths that only exist for other methods yield a `405` with an `Allow` header.
+   * - Paths that only exist with the trailing slash toggled are redirected (`redirectTrailingSlash`).
+   * - Everything else goes to the scoped not-found handler, or `next()`.
+   */
+  #fallthrough(req: Request, res: Response, next: NextFunction, method: string, path: string) {
+    const allowed = this.#allowedMethods(path);
+    if (!allowed.length) {
+      if (this.#redirectSlash(req, res, method, path)) return;
+      return this.#handleNotFound(req, res, next, path);
+    }
+
+    res.setHeader('Allow', allowed.join(', '));
+    if (method === 'OPTIONS') {
+      res.status(HttpStatus.NO_CONTENT).end();
+      return;
+    }
+    const error = new MethodNotAllowedError(`Method ${req.method} is not allowed on ${req.originalUrl || req.url}`);
+    this.#handleError(error, req, res, next, path);
+  }
+
   /**
    * Express-compatible middleware that dispatches incoming requests.
    *
    * @remarks
    * Matches the incoming request against registered routes,
    * attaches `req.params` dynamically, and invokes matched handlers.
-   * Falls back to `next()` if no route matches.
+   * When no endpoint handles the request, answers `OPTIONS` automatically,
+   * responds `405 Method Not Allowed` if the path exists for other methods,
+   * and otherwise runs the scoped not-found handler or falls back to `next()`.
+   * Errors go through the scoped `onError()` handlers before reaching `next(err)`.
    *
    * @example
    * ```ts
@@ -222,10 +1316,33 @@ export class Router {
    * ```
    */
   dispatch: RequestHandler = (req, res, next) => {
+    const path = this.#options.redirectTrailingSlash ? req.path || req.url : this.#trimSlash(req.path || req.url);
+    // `req.route` is restored once the request leaves this router
+    let restoreRoute: (() => void) | undefined;
+    const exit: NextFunction = err => {
+      restoreRoute?.();
+      restoreRoute = undefined;
+      next(err);
+    };
+    const fail = (err: unknown) => this.#handleError(err, req, res, exit, path);
     try {
-      const path = req.path || req.url;
-      const method = req.method === 'HEAD' ? 'GET' : req.method;
-      const result = this.router.match(method, path);
+      let method = req.method;
+      let result = this.router.match(method, path);
+      // HEAD without its own endpoint runs the GET route (Express/Node strip the body)
+      if (method === 'HEAD' && !this.#hasEndpoint(result)) {
+        method = 'GET';
+        result = this.router.match(method, path);
+      }
+      // Endpoint for this method exists → plain delegation, otherwise check other methods
+      const hasEndpoint = result && this.#hasEndpoint(result);
+
+      // Resumed once a lazy router is loaded: the routes before it already ran
+      const resumed = this.#resumed.get(req);
+      if (resumed) {
+        this.#resumed.delete(req);
+        delete (req as any)._param;
+        result = [result[0].filter(([[, route]]) => !resumed.ran.has(route)), result[1]] as typeof result;
+      }
 
       // Attach a default req.valid() if not already present
       if (typeof req.valid !== 'function') {
@@ -237,32 +1354,59 @@ export class Router {
         };
       }
 
+      const done: NextFunction = err =>
+        err ? fail(err) : hasEndpoint ? exit() : this.#fallthrough(req, res, exit, method, path);
+
       // No match found → delegate to next middleware
-      if (!result || !result[0]?.length) return next();
+      if (!result || !result[0]?.length) return done();
 
       // Attach params (lazy + inherited)
-      this.#attachParams(req, result);
+      this.#attachParams(req, result, path);
+
+      // Expose the endpoint route (and its metadata) to every handler, middleware included,
+      // following `routeIndex` as endpoints pass the request on with `next()`
+      const endpoint = () => currentRoute(result[0], (req as any).routeIndex);
+      Object.defineProperty(req, 'endpoint', {configurable: true, get: endpoint});
+      // As `req.route` too, like Express does, until the request leaves the router
+      const route = Object.getOwnPropertyDescriptor(req, 'route');
+      restoreRoute = () => (route ? Object.defineProperty(req, 'route', route) : delete (req as any).route);
+      let assigned: unknown;
+      Object.defineProperty(req, 'route', {
+        configurable: true,
+        enumerable: true,
+        get: () => assigned ?? endpoint(),
+        // Mounted Express routers assign their own route
+        set: value => {
+          assigned = value;
+        },
+      });
+      Object.defineProperty(req, 'matchedRoute', {
+        configurable: true,
+        get: () => matchedRoute(result[0], (req as any).routeIndex),
+      });
 
-      const handlers = result[0];
+      // Param callbacks run before the first handler declaring their param
+      const state: ResumeState = resumed ?? {ran: new Set(), called: new Map()};
+      const handlers = this.#withLazy(this.#withMounts(this.#withParamHandlers(result[0], state.called)), exit, state);
 
       // Single handler optimization
       if (handlers.length === 1) {
         const handler = handlers[0][0][0];
         (req as any).routeIndex = 0;
         try {
-          const maybePromise = handler(req as any, res, next);
-          if (maybePromise instanceof Promise) maybePromise.then(v => handleResult(v, res)).catch(next);
+          const maybePromise = handler(req as any, res, done);
+          if (maybePromise instanceof Promise) maybePromise.then(v => handleResult(v, res)).catch(fail);
           else handleResult(maybePromise, res);
         } catch (err) {
-          next(err);
+          fail(err);
         }
         return;
       }
 
       // Multiple handlers → compose middleware stack
-      compose(handlers)(req, res, next);
+      compose(handlers)(req, res, done);
     } catch (error) {
-      next(error);
+      fail(error);
     }
   };
 }
@@ -283,5 +1427,15 @@ declare module 'express-serve-static-core' {
      * ```
      */
     param: (key: string) => string | undefined;
+
+    /**
+     * The route of the endpoint handling the request, set by `Router.dispatch`.
+     *
+     * @example
+     * ```ts
+     * res.on('finish', () => metrics.observe(req.matchedRoute?.pattern ?? 'unmatched'));
+     * ```
+     */
+    matchedRoute?: MatchedRoute;
   }
 }
@@ -0,0 +1,71 @@
+import type {RouteInfo, RouteTable, RouterRoute} from '../types';
+
+/**
+ * Groups raw router routes per kind, method and path, preserving registration order.
+ * Group middleware is listed apart from the endpoint handlers it runs ahead of.
+ *
+ * @param routes - The raw route list of a router.
+ * @param matcher - Name of the active matcher, if one has been selected.
+ * @returns A JSON-serializable {@link RouteTable}.
+ */
+export const inspectRoutes = (routes: RouterRoute[], matcher: string | null): RouteTable => {
+  const groups = new Map<string, RouteInfo>();
+
+  for (const route of routes) {
+    const type = route.isMiddleware ? 'middleware' : 'endpoint';
+    const key = `${type} ${route.method} ${route.path}`;
+    const name = route.handler.name || '<anonymous>';
+
+    let info = groups.get(key);
+    if (!info) {
+      info = {method: route.method, path: route.path, type, handlers: []};
+      if (route.name) info.name = route.name;
+      if (route.meta) info.meta = route.meta;
+      groups.set(key, info);
+    }
+    if (route.isScoped) (info.middleware ??= []).push(name);
+    else info.handlers.push(name);
+  }
+
+  return {matcher, routes: [...groups.values()]};
+};
+
+/**
+ * Renders a {@link RouteTable} as a tree, one branch per path.
+ *
+ * @example
+ * ```txt
+ * SmartRouter + RegExpRouter
+ * ├─ *
+ * │  └─ USE    logger
+ * └─ /users/:id
+ *    ├─ GET    show
+ *    └─ DELETE [auth] destroy
+ * ```
+ */
+export const formatRouteTree = (table: RouteTable): string => {
+  const paths = new Map<string, RouteInfo[]>();
+  for (const route of table.routes) {
+    const group = paths.get(route.path);
+    if (group) group.push(route);
+    else paths.set(route.path, [route]);
+  }
+
+  const label = (route: RouteInfo) => (route.type === 'middleware' ? 'USE' : route.method);
+  const width = Math.max(0, ...table.routes.map(r => label(r).length));
+
+  const lines = [table.matcher ?? 'SmartRouter (matcher not built yet)'];
+  const entries = [...paths.entries()];
+  entries.forEach(([path, routes], i) => {
+    const lastPath = i === entries.length - 1;
+    lines.push(`${lastPath ? '└─' : '├─'} ${path}`);
+    routes.forEach((route, j) => {
+      const branch = j === routes.length - 1 ? '└─' : '├─';
+      // Group middleware in brackets, ahead of the handlers
+      const handlers = [...(route.middleware ?? []).map(name => `[${name}]`), ...route.handlers];
+      lines.push(`${lastPath ? '   ' : '│  '}${branch} ${label(route).padEnd(width)} ${handlers.join(', ')}`);
+    });
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,191 @@
+import {RegExpRouter} from './reg-exp';
+import {UnsupportedPathError} from './errors';
+import {checkOptionalParameter} from './utils';
+import {toMatcherPaths} from './syntax';
+import {splitRoutingPath} from './trie-tree/utils';
+import {METHOD_NAME_ALL, type RouteLintIssue, type RouterRoute, type RouterOptions} from '../types';
+
+/** A route declaration: the first route of each registration call. */
+type Declaration = {route: RouterRoute; variants: string[][]};
+
+/**
+ * Parses a `:name` / `:name{pattern}` segment.
+ */
+const parseParam = (segment: string): {name: string; pattern?: string} | null => {
+  const m = segment.match(/^:([^{}]+)(?:\{(.+)\})?$/);
+  return m ? {name: m[1], pattern: m[2]} : null;
+};
+
+/**
+ * Splits a path into segments, once per expanded optional parameter.
+ */
+const variants = (path: string): string[][] =>
+  toMatcherPaths(path).flatMap(p => (checkOptionalParameter(p) || [p]).map(splitRoutingPath));
+
+/**
+ * Checks whether every path matched by segments `b` is also matched by segments `a`.
+ */
+const covers = (a: string[], b: string[], caseSensitive: boolean): boolean => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === '*' && i === a.length - 1) return true;
+    if (i >= b.length) return false;
+
+    const [sa, sb] = caseSensitive ? [a[i], b[i]] : [a[i].toLowerCase(), b[i].toLowerCase()];
+    if (sa === sb) continue;
+
+    const pa = parseParam(a[i]);
+    if (!pa || b[i] === '*') return false;
+    if (!pa.pattern) continue;
+
+    const pb = parseParam(b[i]);
+    if (pb ? pb.pattern !== pa.pattern : !new RegExp(`^(?:${pa.pattern})$`, caseSensitive ? '' : 'i').test(b[i])) {
+      return false;
+    }
+  }
+  return a.length === b.length;
+};
+
+/**
+ * Lists the paths `RegExpRouter` cannot handle, by building it until no conflict remains.
+ */
+const unsupportedPaths = (routes: RouterRoute[], caseSensitive: boolean): string[] => {
+  const paths: string[] = [];
+  let remaining = routes;
+  for (;;) {
+    const matcher = new RegExpRouter<RouterRoute>({caseSensitive});
+    try {
+      remaining.forEach(r => toMatcherPaths(r.path).forEach(p => matcher.add(r.method, p, r)));
+      matcher.match(METHOD_NAME_ALL, '/');
+      return paths;
+    } catch (e) {
+      if (!(e instanceof UnsupportedPathError)) throw e;
+      const rest = remaining.filter(r => !variants(r.path).some(v => `/${v.join('/')}` === e.path));
+      if (rest.length === remaining.length) return [...paths, e.path];
+      paths.push(e.path);
+      remaining = rest;
+    }
+  }
+};
+
+/**
+ * Reports duplicate, shadowed and conflicting routes, and paths forcing a matcher fallback.
+ *
+ * @param routes - The raw route list of a router.
+ * @param registrationOf - Identifies the registration call a route comes from.
+ * @param options - The router options.
+ * @returns The issues found, in route registration order per kind.
+ */
+export const lintRoutes = (
+  routes: RouterRoute[],
+  registrationOf: (route: RouterRoute) => object | undefined,
+  options: Required<RouterOptions>,
+): RouteLintIssue[] => {
+  const issues: RouteLintIssue[] = [];
+
+  const declarations: Declaration[] = [];
+  const seen = new Set<object | undefined>();
+  for (const route of routes) {
+    const registration = registrationOf(route);
+    const key = registration ?? route;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    // RegExp paths are only checked for duplicates
+    declarations.push({route, variants: route.pattern ? [] : variants(route.path)});
+  }
+  const endpoints = declarations.filter(d => !d.route.isMiddleware);
+
+  // Same method and path registered more than once
+  const counts = new Map<string, number>();
+  for (const {route} of endpoints) {
+    const key = `${route.method} ${route.path}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    if (counts.get(key) === 2) {
+      issues.push({
+        type: 'duplicate',
+        method: route.method,
+        path: route.path,
+        message: `${key} is registered more than once`,
+      });
+    }
+  }
+
+  // Earlier endpoints matching every request of a later one
+  endpoints.forEach(({route, variants: own}, i) => {
+    if (!own.length) return;
+    const shadow = endpoints
+      .slice(0, i)
+      .find(
+        ({route: r, variants: other}) =>
+          r.path !== route.path &&
+          (r.method === route.method || r.method === METHOD_NAME_ALL) &&
+          own.every(b => other.some(a => covers(a, b, options.caseSensitive))),
+      );
+    if (shadow) {
+      issues.push({
+        type: 'shadowed',
+        method: route.method,
+        path: route.path,
+        conflictsWith: shadow.route.path,
+        message: `${route.method} ${route.path} is shadowed by ${shadow.route.method} ${shadow.route.path} registered before it`,
+      });
+    }
+  });
+
+  // Differently named params at the same position
+  const names = new Map<string, {name: string; path: string}>();
+  const reported = new Set<string>();
+  for (const {route, variants: own} of declarations) {
+    for (const segments of own) {
+      let prefix = '';
+      for (const segment of segments) {
+        const param = parseParam(segment);
+        prefix += `/${param ? `:{${param.pattern ?? ''}}` : segment}`;
+        if (!param) continue;
+
+        const known = names.get(prefix);
+        if (!known) names.set(prefix, {name: param.name, path: route.path});
+        else if (known.name !== param.name && !reported.has(`${prefix} ${param.name}`)) {
+          reported.add(`${prefix} ${param.name}`);
+          issues.push({
+            type: 'param-conflict',
+            method: route.method,
+            path: route.path,
+            conflictsWith: known.path,
+            message: `Param :${param.name} in ${route.path} conflicts with :${known.name} in ${known.path}`,
+          });
+        }
+      }
+    }
+  }
+
+  // Paths RegExpRouter cannot handle
+  if (options.strategy === 'smart' || options.strategy === 'regexp') {
+    const stringRoutes = routes.filter(r => !r.pattern);
+    for (const path of unsupportedPaths(stringRoutes, options.caseSensitive)) {
+      const route = stringRoutes.find(r => variants(r.path).some(v => `/${v.join('/')}` === path)) ?? stringRoutes[0];
+      issues.push({
+        type: 'fallback',
+        method: route.method,
+        path: route.path,
+        message:
+          options.strategy === 'smart'
+            ? `${route.path} is not supported by RegExpRouter, SmartRouter falls back to TrieRouter`
+            : `${route.path} is not supported by RegExpRouter`,
+      });
+    }
+  }
+
+  // RegExp paths only PatternRouter handles
+  if (options.strategy === 'smart') {
+    for (const route of declarations.map(d => d.route).filter(r => r.pattern)) {
+      issues.push({
+        type: 'fallback',
+        method: route.method,
+        path: route.path,
+        message: `${route.path} is a RegExp path, SmartRouter falls back to PatternRouter`,
+      });
+    }
+  }
+
+  return issues;
+};
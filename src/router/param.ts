@@ -1,5 +1,7 @@
 import {Request} from 'express';
 import {tryDecode} from './utils';
+import {parsersOf} from './converters';
+import {captureWildcards, segmentsOf} from './syntax';
 import type {Result, RouterRoute, Handler} from '../types';
 
 const tryDecodeURIComponent = (str: string) => tryDecode(str, decodeURIComponent);
@@ -11,6 +13,7 @@ export class Param {
   constructor(
     private req: Request & {routeIndex: number},
     private matchResult: Result<[Handler, RouterRoute]>,
+    private path: string,
   ) {}
 
   /**
@@ -20,26 +23,30 @@ export class Param {
 
   /**
    * Retrieves the decoded value of a specific route parameter by key.
+   * Values of `:name<converter>` params are parsed by their converter.
    *
    * @param {string} key - The name of the route parameter.
-   * @returns {string | undefined} The decoded parameter value, or `undefined` if not found.
+   * @returns {unknown} The decoded parameter value, or `undefined` if not found.
    *
    * @example
    * ```ts
    * const userId = param.param('id');
    * ```
    */
-  param = (key: string): string | undefined => {
+  param = (key: string): unknown => {
     const routeIndex = this.#routeIndex();
     const paramKey = this.matchResult[0][routeIndex][1][key];
+    // Embedded params (`/files.:ext`) are split from a hidden param, wildcards captured from the path
+    if (paramKey === undefined) return this.params()[key];
     const value = this.#getParamValue(paramKey);
-    return value ? this.#decode(value) : value;
+    return value ? this.#parse(routeIndex, key, this.#decode(value)) : value;
   };
 
   /**
    * Retrieves all decoded route parameters as a key-value record.
+   * Unnamed `*` wildcards are captured as `'0'`, `'1'`, ... from the matched path.
    *
-   * @returns {Record<string, string>} An object mapping parameter names to decoded values.
+   * @returns {Record<string, unknown>} An object mapping parameter names to decoded (and converted) values.
    *
    * @example
    * ```ts
@@ -47,19 +54,37 @@ export class Param {
    * // => { id: '123', name: 'John' }
    * ```
    */
-  params = (): Record<string, string> => {
+  params = (): Record<string, unknown> => {
     const routeIndex = this.#routeIndex();
-    const decoded: Record<string, string> = {};
+    const decoded: Record<string, unknown> = {};
     const keys = Object.keys(this.matchResult[0][routeIndex][1]);
     for (const key of keys) {
       const value = this.#getParamValue(this.matchResult[0][routeIndex][1][key]);
-      if (value !== undefined) {
-        decoded[key] = this.#decode(value);
+      if (value === undefined) continue;
+
+      const segment = segmentsOf(this.matchResult[0][routeIndex][0][1])?.[key];
+      if (!segment) {
+        decoded[key] = this.#parse(routeIndex, key, this.#decode(value));
+        continue;
+      }
+      for (const [name, part] of Object.entries(segment.regExp.exec(value)?.groups ?? {})) {
+        decoded[name] = this.#decode(part);
       }
     }
+    captureWildcards(this.matchResult[0][routeIndex][0][1], this.path)?.forEach(
+      (value, i) => (decoded[i] = this.#decode(value)),
+    );
     return decoded;
   };
 
+  /**
+   * Applies the converter declared for a parameter by the matched route, if any.
+   */
+  #parse = (routeIndex: number, key: string, value: string): unknown => {
+    const parse = parsersOf(this.matchResult[0][routeIndex][0][1])?.[key];
+    return parse ? parse(value) : value;
+  };
+
   /**
    * Resolves the parameter value from the match result.
    */
@@ -0,0 +1,83 @@
+import {METHOD_NAME_ALL, type Params, type Result, type Router} from '../../types';
+
+/** [method, compiled pattern, param name per capture group (`null` for RegExp paths), handler] */
+type Route<T> = [string, RegExp, (string | undefined)[] | null, T];
+
+/**
+ * Counts the capture groups of a RegExp source.
+ */
+const countGroups = (source: string): number => new RegExp(`${source}|`).exec('')!.length - 1;
+
+/**
+ * Compiles a string path into a RegExp, with the param name of each capture group.
+ */
+const compile = (path: string, ignoreCase: boolean): [RegExp, (string | undefined)[]] => {
+  const names: (string | undefined)[] = [];
+  const source = path.replace(
+    /\/:([^/{}?]+)(?:\{((?:[^{}]|\{[^{}]*\})+)\})?(\?)?|\/\*$|[.\\+*[^\]$()?|{}]/g,
+    (token: string, name: string | undefined, constraint: string | undefined, optional: string | undefined) => {
+      if (token === '/*') return '(?:|/.*)'; // '/path/to/*' also matches '/path/to'
+      if (token === '*') return '.*';
+      if (token.length === 1) return `\\${token}`;
+
+      // Groups inside the constraint are not params
+      names.push(name, ...Array<undefined>(constraint ? countGroups(constraint) : 0));
+      const segment = `/(${constraint ?? '[^/]+'})`;
+      return optional ? `(?:${segment})?` : segment;
+    },
+  );
+  return [new RegExp(`^${source}$`, ignoreCase ? 'i' : ''), names];
+};
+
+/**
+ * PatternRouter tests every route with its own RegExp, in registration order.
+ *
+ * Slower than the other matchers, but the only one accepting RegExp paths: their capture
+ * groups become numeric params (`'0'`, `'1'`, ...) and their named groups named params.
+ */
+export class PatternRouter<T> implements Router<T> {
+  name: string = 'PatternRouter';
+  #routes: Route<T>[] = [];
+  #ignoreCase: boolean;
+
+  constructor(options: {caseSensitive?: boolean} = {}) {
+    this.#ignoreCase = options.caseSensitive === false;
+  }
+
+  add(method: string, path: string | RegExp, handler: T) {
+    if (typeof path === 'string') {
+      const [pattern, names] = compile(path, this.#ignoreCase);
+      this.#routes.push([method, pattern, names, handler]);
+      return;
+    }
+
+    // A global or sticky RegExp would keep state between requests
+    this.#routes.push([method, new RegExp(path.source, path.flags.replace(/[gy]/g, '')), null, handler]);
+  }
+
+  remove(method: string, _path: string | RegExp, handler: T) {
+    this.#routes = this.#routes.filter(r => r[0] !== method || r[3] !== handler);
+  }
+
+  match(method: string, path: string): Result<T> {
+    const handlers: [T, Params][] = [];
+    for (const [routeMethod, pattern, names, handler] of this.#routes) {
+      if (routeMethod !== method && routeMethod !== METHOD_NAME_ALL) continue;
+
+      const match = pattern.exec(path);
+      if (!match) continue;
+
+      const params: Params = {};
+      for (let i = 1; i < match.length; i++) {
+        if (match[i] === undefined) continue;
+        const name = names ? names[i - 1] : String(i - 1);
+        if (name) params[name] = match[i];
+      }
+      for (const [name, value] of Object.entries(match.groups ?? {})) {
+        if (value !== undefined) params[name] = value;
+      }
+      handlers.push([handler, params]);
+    }
+    return [handlers];
+  }
+}
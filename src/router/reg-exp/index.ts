@@ -1,5 +1,5 @@
 import {Trie, PATH_ERROR, type ParamAssocArray} from './node';
-import {MESSAGE_MATCHER_IS_ALREADY_BUILT, UnsupportedPathError} from '../errors';
+import {UnsupportedPathError} from '../errors';
 import {METHOD_NAME_ALL, type Result, type Router, type ParamIndexMap} from '../../types';
 import {buildWildcardRegExp, clearWildcardRegExpCache, checkOptionalParameter} from '../utils';
 
@@ -38,11 +38,23 @@ const findMiddleware = <T>(
   return undefined;
 };
 
+/**
+ * Trie insertion order: dynamic paths by length, then static paths (only checked for conflicts).
+ */
+const byInsertionOrder = (
+  [isStaticA, pathA]: [boolean, string, ...unknown[]],
+  [isStaticB, pathB]: [boolean, string, ...unknown[]],
+) => (isStaticA ? 1 : isStaticB ? -1 : pathA.length - pathB.length);
+
 /**
  * Build matcher from preprocessed route data.
  * This is where trie-based RegExp generation happens.
+ * With `ignoreCase`, static paths are keyed in lowercase and the RegExp gets the `i` flag.
  */
-const buildMatcherFromPreprocessedRoutes = <T>(routes: [string, HandlerWithMeta<T>[]][]): Matcher<T> => {
+const buildMatcherFromPreprocessedRoutes = <T>(
+  routes: [string, HandlerWithMeta<T>[]][],
+  ignoreCase = false,
+): Matcher<T> => {
   const trie = new Trie();
   const handlerData: HandlerData<T>[] = [];
   if (routes.length === 0) {
@@ -51,13 +63,13 @@ const buildMatcherFromPreprocessedRoutes = <T>(routes: [string, HandlerWithMeta<
 
   const routesWithStaticPathFlag = routes
     .map(route => [!/\*|\/:/.test(route[0]), ...route] as [boolean, string, HandlerWithMeta<T>[]])
-    .sort(([isStaticA, pathA], [isStaticB, pathB]) => (isStaticA ? 1 : isStaticB ? -1 : pathA.length - pathB.length));
+    .sort(byInsertionOrder);
 
   const staticMap: StaticMap<T> = Object.create(null);
   for (let i = 0, j = -1, len = routesWithStaticPathFlag.length; i < len; i++) {
     const [pathErrorCheckOnly, path, handlers] = routesWithStaticPathFlag[i];
     if (pathErrorCheckOnly) {
-      staticMap[path] = [handlers.map(([h]) => [h, Object.create(null)]), emptyParam];
+      staticMap[ignoreCase ? path.toLowerCase() : path] = [handlers.map(([h]) => [h, Object.create(null)]), emptyParam];
     } else {
       j++;
     }
@@ -104,27 +116,91 @@ const buildMatcherFromPreprocessedRoutes = <T>(routes: [string, HandlerWithMeta<
     handlerMap[i] = handlerData[indexReplacementMap[i]];
   }
 
-  return [regexp, handlerMap, staticMap] as Matcher<T>;
+  return [ignoreCase ? new RegExp(regexp, 'i') : regexp, handlerMap, staticMap] as Matcher<T>;
+};
+
+/**
+ * Throws the `UnsupportedPathError` that building a `RegExpRouter` with these routes would,
+ * inserting the paths of each method into a trie without compiling the matchers.
+ *
+ * @param routes - `[method, path]` pairs, in the syntax accepted by `add()`.
+ */
+export const checkRoutes = (routes: [string, string][]): void => {
+  const pathsOf = (path: string) =>
+    path === '/*' ? ['*'] : /\*$/.test(path) ? [path] : checkOptionalParameter(path) || [path];
+
+  new Set(routes.map(([method]) => method)).forEach(method => {
+    const paths = new Set(
+      routes.filter(([m]) => m === method || m === METHOD_NAME_ALL).flatMap(([, path]) => pathsOf(path)),
+    );
+    const trie = new Trie();
+    [...paths]
+      .map(path => [!/\*|\/:/.test(path), path] as [boolean, string])
+      .sort(byInsertionOrder)
+      .forEach(([pathErrorCheckOnly, path], index) => {
+        try {
+          trie.insert(path, index, pathErrorCheckOnly);
+        } catch (e) {
+          throw e === PATH_ERROR ? new UnsupportedPathError(path) : e;
+        }
+      });
+  });
 };
 
 export class RegExpRouter<T> implements Router<T> {
   name: string = 'RegExpRouter';
-  #middleware?: Record<string, Record<string, HandlerWithMeta<T>[]>>;
-  #routes?: Record<string, Record<string, HandlerWithMeta<T>[]>>;
+  #middleware!: Record<string, Record<string, HandlerWithMeta<T>[]>>;
+  #routes!: Record<string, Record<string, HandlerWithMeta<T>[]>>;
+  #registrations: [string, string, T][] = [];
+  #ignoreCase: boolean;
+
+  constructor(options: {caseSensitive?: boolean} = {}) {
+    this.#ignoreCase = options.caseSensitive === false;
+    this.#reset();
+  }
+
+  /**
+   * Registers a route. Once matchers are built, they are dropped and
+   * recompiled on the next `match()`, so consecutive additions are batched.
+   */
+  add(method: string, path: string | RegExp, handler: T) {
+    if (typeof path !== 'string') throw new UnsupportedPathError(String(path));
+    this.#registrations.push([method, path, handler]);
+    this.#insert(method, path, handler);
+    this.#invalidate();
+  }
+
+  /**
+   * Removes a previously registered handler.
+   * The handler maps are rebuilt from the remaining registrations and
+   * matchers are recompiled lazily on the next `match()`.
+   */
+  remove(method: string, path: string | RegExp, handler: T) {
+    const registrations = this.#registrations.filter(r => r[2] !== handler);
+    if (registrations.length === this.#registrations.length) return;
+
+    this.#reset();
+    this.#registrations = registrations;
+    registrations.forEach(r => this.#insert(...r));
+    this.#invalidate();
+  }
 
-  constructor() {
+  #reset() {
     this.#middleware = {[METHOD_NAME_ALL]: Object.create(null)};
     this.#routes = {[METHOD_NAME_ALL]: Object.create(null)};
   }
 
-  add(method: string, path: string, handler: T) {
+  /**
+   * Drops the compiled `match()` installed by the last build, if any.
+   */
+  #invalidate() {
+    if (Object.hasOwn(this, 'match')) delete (this as Partial<Router<T>>).match;
+  }
+
+  #insert(method: string, path: string, handler: T) {
     const middleware = this.#middleware;
     const routes = this.#routes;
 
-    if (!middleware || !routes) {
-      throw new Error(MESSAGE_MATCHER_IS_ALREADY_BUILT);
-    }
-
     if (!middleware[method]) {
       [middleware, routes].forEach(handlerMap => {
         handlerMap[method] = Object.create(null);
@@ -185,12 +261,13 @@ export class RegExpRouter<T> implements Router<T> {
 
   match(method: string, path: string): Result<T> {
     const matchers: MatcherMap<T> = this.#buildAllMatchers();
+    const ignoreCase = this.#ignoreCase;
 
     const match = ((method, path) => {
       const matcher = (matchers[method] || matchers[METHOD_NAME_ALL]) as Matcher<T>;
 
       // Check for exact static match first
-      const staticMatch = matcher[2][path];
+      const staticMatch = matcher[2][ignoreCase ? path.toLowerCase() : path];
       if (staticMatch) {
         return staticMatch;
       }
@@ -213,14 +290,13 @@ export class RegExpRouter<T> implements Router<T> {
   #buildAllMatchers(): MatcherMap<T> {
     const matchers: MatcherMap<T> = Object.create(null);
 
-    Object.keys(this.#routes!)
-      .concat(Object.keys(this.#middleware!))
+    Object.keys(this.#routes)
+      .concat(Object.keys(this.#middleware))
       .forEach(method => {
         matchers[method] ||= this.#buildMatcher(method);
       });
 
     // Release cache
-    this.#middleware = this.#routes = undefined;
     clearWildcardRegExpCache();
 
     return matchers;
@@ -231,7 +307,7 @@ export class RegExpRouter<T> implements Router<T> {
 
     let hasOwnRoute = method === METHOD_NAME_ALL;
 
-    [this.#middleware!, this.#routes!].forEach(r => {
+    [this.#middleware, this.#routes].forEach(r => {
       const ownRoute = r[method] ? Object.keys(r[method]).map(path => [path, r[method][path]]) : [];
       if (ownRoute.length !== 0) {
         hasOwnRoute ||= true;
@@ -249,7 +325,7 @@ export class RegExpRouter<T> implements Router<T> {
     if (!hasOwnRoute) {
       return null;
     } else {
-      return buildMatcherFromPreprocessedRoutes(routes);
+      return buildMatcherFromPreprocessedRoutes(routes, this.#ignoreCase);
     }
   }
 }
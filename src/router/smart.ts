@@ -1,26 +1,64 @@
+import {UnsupportedPathError} from './errors';
+import {LRUCache, type CacheStats} from './cache';
 import type {Result, Router} from '../types';
-import {MESSAGE_MATCHER_IS_ALREADY_BUILT, UnsupportedPathError} from './errors';
 
 export class SmartRouter<T> implements Router<T> {
   name: string = 'SmartRouter';
   #routers: Router<T>[] = [];
-  #routes?: [string, string, T][] = [];
+  #routes: [string, string | RegExp, T][] = [];
+  #active?: Router<T>;
+  #cache?: LRUCache<string, Result<T>>;
 
-  constructor(init: {routers: Router<T>[]}) {
+  /**
+   * @param init.routers - Candidate routers, tried in order until one supports every route.
+   * @param init.cacheSize - Number of match results kept in an LRU cache (`0` disables it).
+   */
+  constructor(init: {routers: Router<T>[]; cacheSize?: number}) {
     this.#routers = init.routers;
+    if (init.cacheSize) this.#cache = new LRUCache(init.cacheSize);
   }
 
-  add(method: string, path: string, handler: T) {
-    if (!this.#routes) {
-      throw new Error(MESSAGE_MATCHER_IS_ALREADY_BUILT);
+  add(method: string, path: string | RegExp, handler: T) {
+    this.#routes.push([method, path, handler]);
+
+    if (this.#active) {
+      try {
+        this.#active.add(method, path, handler);
+      } catch (e) {
+        if (!(e instanceof UnsupportedPathError)) throw e;
+        // Rebuilt on the next match by the remaining routers
+        this.#routers = this.#routers.filter(r => r !== this.#active);
+        this.#active = undefined;
+      }
+      this.#invalidate();
     }
+  }
 
-    this.#routes.push([method, path, handler]);
+  remove(method: string, path: string | RegExp, handler: T) {
+    this.#routes = this.#routes.filter(r => r[2] !== handler);
+
+    if (this.#active) {
+      if (!this.#active.remove) {
+        throw new Error(`${this.#active.name} does not support removing routes.`);
+      }
+      this.#active.remove(method, path, handler);
+      this.#invalidate();
+    }
   }
 
   match(method: string, path: string): Result<T> {
-    if (!this.#routes) {
-      throw new Error('Fatal error');
+    // Routes changed after the build → let the active router rebuild,
+    // falling back to the remaining routers if it no longer supports them
+    if (this.#active) {
+      try {
+        const res = this.#active.match(method, path);
+        this.#bind(this.#active);
+        return this.#cache ? this.match(method, path) : res;
+      } catch (e) {
+        if (!(e instanceof UnsupportedPathError)) throw e;
+        this.#routers = this.#routers.filter(r => r !== this.#active);
+        this.#active = undefined;
+      }
     }
 
     const routers = this.#routers;
@@ -29,6 +67,7 @@ export class SmartRouter<T> implements Router<T> {
     const len = routers.length;
     let i = 0;
     let res;
+    let unsupported: UnsupportedPathError | undefined;
     for (; i < len; i++) {
       const router = routers[i];
       try {
@@ -38,33 +77,77 @@ export class SmartRouter<T> implements Router<T> {
         res = router.match(method, path);
       } catch (e) {
         if (e instanceof UnsupportedPathError) {
+          unsupported = e;
           continue;
         }
         throw e;
       }
 
-      this.match = router.match.bind(router);
-      this.#routers = [router];
-      this.#routes = undefined;
+      this.#bind(router);
+      // Keep the untouched routers as fallbacks for routes added later
+      this.#routers = routers.slice(i);
+      this.#active = router;
       break;
     }
 
     if (i === len) {
-      // not found
-      throw new Error('Fatal error');
+      // No router supports every route: name the offending path
+      throw unsupported ?? new Error('Fatal error');
     }
 
     // e.g. "SmartRouter + RegExpRouter"
     this.name = `SmartRouter + ${this.activeRouter.name}`;
 
-    return res as Result<T>;
+    // Go through the cache, so the lookup that built the matcher is cached (and counted) too
+    return this.#cache ? this.match(method, path) : (res as Result<T>);
+  }
+
+  /**
+   * Replaces `match()` with the one of the selected router, behind the cache when enabled.
+   */
+  #bind(router: Router<T>) {
+    const match = router.match.bind(router);
+    const cache = this.#cache;
+    if (!cache) {
+      this.match = match;
+      return;
+    }
+
+    this.match = (method, path) => {
+      const key = `${method} ${path}`;
+      let res = cache.get(key);
+      if (res === undefined) {
+        res = match(method, path);
+        cache.set(key, res);
+      }
+      return res;
+    };
+  }
+
+  /**
+   * Drops the bound `match()` of the active router so the next call goes through the checks above.
+   * Cached results are cleared as they may no longer reflect the routes.
+   */
+  #invalidate() {
+    this.#cache?.clear();
+    if (Object.hasOwn(this, 'match')) delete (this as Partial<Router<T>>).match;
+  }
+
+  /** Match cache counters, or `null` when the cache is disabled. */
+  get cacheStats(): CacheStats | null {
+    return this.#cache ? this.#cache.stats : null;
+  }
+
+  /** Whether the active router has been selected (happens on the first `match()`). */
+  get isBuilt(): boolean {
+    return this.#active !== undefined;
   }
 
   get activeRouter(): Router<T> {
-    if (this.#routes || this.#routers.length !== 1) {
+    if (!this.#active) {
       throw new Error('No active router has been determined yet.');
     }
 
-    return this.#routers[0];
+    return this.#active;
   }
 }
@@ -0,0 +1,225 @@
+import {expandConverters} from './converters';
+import {splitRoutingPath} from './trie-tree/utils';
+import type {RouterRoute} from '../types';
+
+/**
+ * Express 5 (path-to-regexp v8) path syntax, translated into the syntax of the matchers:
+ *
+ * - `/*splat` named wildcards → `/:splat{.+}`
+ * - `{...}` optional groups (`/users{/:id}`) → one path with and one without the group
+ * - params embedded in a segment (`/files.:ext`) → a hidden `:__0{files\.(?:[^/]+?)}` param
+ *   whose value is split back into the named params by {@link Param}
+ */
+
+const NAME = '[A-Za-z_$][\\w$]*';
+
+// A segment made of a single param, in the matchers' syntax (`:id`, `:id{[0-9]+}`, `:id<int>`, `:id?`)
+const paramSegmentRegExp = /^:[^/{}<>?.:]+(?:\{.+\}|<[^<>]+>)?\??$/;
+// A param embedded in a segment, with its optional `{regex}` constraint
+const EMBEDDED_PARAM = `:(${NAME})(?:\\{((?:[^{}]|\\{[^{}]*\\})+)\\})?`;
+const namedWildcardRegExp = new RegExp(`^\\*(${NAME})$`);
+
+/** A segment with embedded params: the RegExp splitting its value and the names of its params. */
+type EmbeddedSegment = {regExp: RegExp; names: string[]};
+
+// Segments with embedded params of the routes declaring them, by hidden param name
+const routeSegments = new WeakMap<RouterRoute, Record<string, EmbeddedSegment>>();
+// RegExps capturing the unnamed `*` wildcards of the routes declaring them, one per matcher path
+const routeWildcards = new WeakMap<RouterRoute, RegExp[]>();
+
+const escapeRegExp = (str: string) => str.replace(/[.\\+*[^\]$()?|{}]/g, '\\$&');
+
+/**
+ * Finds the index of the brace closing the one at `start`.
+ */
+const closingBrace = (path: string, start: number): number => {
+  for (let i = start, depth = 0; i < path.length; i++) {
+    if (path[i] === '{') depth++;
+    else if (path[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced braces in path: ${path}`);
+};
+
+/**
+ * Tells an optional group apart from the `{regex}` constraint of a param (`:id{[0-9]+}`).
+ * Right after a param, braces only open a group when starting with a segment or a param (`{/:b}`, `{.:ext}`).
+ */
+const isGroup = (path: string, start: number, end: number): boolean =>
+  !/:[^/{}<>?]+$/.test(path.slice(0, start)) ||
+  new RegExp(`^(?:/|[^/{}()[\\]\\\\*+?]*[:*]${NAME})`).test(path.slice(start + 1, end));
+
+/**
+ * Expands optional groups into every combination, shortest first.
+ *
+ * @example
+ * ```ts
+ * expandGroups('/users{/:id}'); // ['/users', '/users/:id']
+ * ```
+ */
+export const expandGroups = (path: string): string[] => {
+  for (let i = 0; i < path.length; i++) {
+    if (path[i] !== '{') continue;
+    const end = closingBrace(path, i);
+    if (!isGroup(path, i, end)) {
+      i = end;
+      continue;
+    }
+
+    const [before, inner, after] = [path.slice(0, i), path.slice(i + 1, end), path.slice(end + 1)];
+    return [...expandGroups(before + after), ...expandGroups(before + inner + after)];
+  }
+  return [path];
+};
+
+/**
+ * Checks whether a segment embeds params between static text (`files.:ext`, `:name.:ext`).
+ */
+const hasEmbeddedParams = (segment: string): boolean =>
+  !paramSegmentRegExp.test(segment) && new RegExp(EMBEDDED_PARAM).test(segment);
+
+/**
+ * Builds the RegExp of a segment with embedded params, with one named group per param.
+ */
+const segmentRegExp = (segment: string, capture: boolean): string =>
+  segment.replace(new RegExp(`${EMBEDDED_PARAM}|([^:]+)`, 'g'), (_, name, constraint = '[^/]+?', text) => {
+    if (text) return escapeRegExp(text);
+    return capture ? `(?<${name}>${constraint})` : `(?:${constraint})`;
+  });
+
+/**
+ * Translates a route path into the paths registered in the matchers.
+ *
+ * @returns The matcher paths, and the segments with embedded params in order of their hidden param (`__0`, `__1`, ...).
+ */
+const translate = (path: string): {paths: string[]; segments: string[]} => {
+  const segments: string[] = [];
+  const paths = expandGroups(path).map(variant => {
+    const translated = splitRoutingPath(variant).map(segment => {
+      const wildcard = segment.match(namedWildcardRegExp);
+      if (wildcard) return `:${wildcard[1]}{.+}`;
+      if (!hasEmbeddedParams(segment)) return segment;
+
+      const index = segments.includes(segment) ? segments.indexOf(segment) : segments.push(segment) - 1;
+      return `:__${index}{${segmentRegExp(segment, false)}}`;
+    });
+    return expandConverters(`/${translated.join('/')}`);
+  });
+
+  return {paths: paths.filter((p, i) => paths.indexOf(p) === i), segments};
+};
+
+/**
+ * Returns the paths to register in the matchers for a route path, supporting
+ * both the matchers' syntax and the Express 5 syntax.
+ *
+ * @example
+ * ```ts
+ * toMatcherPaths('/files/*splat'); // ['/files/:splat{.+}']
+ * toMatcherPaths('/users{/:id<int>}'); // ['/users', '/users/:id{[0-9]+}']
+ * ```
+ */
+export const toMatcherPaths = (path: string): string[] => translate(path).paths;
+
+/**
+ * Records the segments with embedded params declared by a route's path.
+ */
+export const bindSegments = (route: RouterRoute): void => {
+  const {segments} = translate(route.path);
+  if (!segments.length) return;
+
+  const embedded: Record<string, EmbeddedSegment> = {};
+  segments.forEach((segment, i) => {
+    const names = [...segment.matchAll(new RegExp(EMBEDDED_PARAM, 'g'))].map(([, name]) => name);
+    embedded[`__${i}`] = {regExp: new RegExp(`^${segmentRegExp(segment, true)}$`), names};
+  });
+  routeSegments.set(route, embedded);
+};
+
+/**
+ * Returns the segments behind the hidden params of a route, if its path embeds params in segments.
+ */
+export const segmentsOf = (route: RouterRoute): Record<string, EmbeddedSegment> | undefined => routeSegments.get(route);
+
+/**
+ * Builds a RegExp matching a matcher path, with a `_<i>` named group per unnamed `*` wildcard.
+ */
+const wildcardRegExp = (path: string): RegExp => {
+  let index = 0;
+  const source = path.replace(
+    /\/:[^/{}?]+(?:\{((?:[^{}]|\{[^{}]*\})+)\})?(\?)?|\/\*$|[.\\+*[^\]$()?|{}]/g,
+    (token: string, constraint: string | undefined, optional: string | undefined) => {
+      if (token === '/*') return `(?:/(?<_${index++}>.*))?`; // '/files/*' also matches '/files'
+      if (token === '*') return `(?<_${index++}>.*)`;
+      if (token.length === 1) return `\\${token}`;
+      const segment = `/${constraint ? `(?:${constraint})` : '[^/]+'}`;
+      return optional ? `(?:${segment})?` : segment;
+    },
+  );
+  // The matcher already applied case sensitivity
+  return new RegExp(`^${source}$`, 'i');
+};
+
+/**
+ * Records how to capture the unnamed `*` wildcards of a route into `params['0']`, `params['1']`, ...
+ * Middleware (`use()`) does not capture wildcards.
+ */
+export const bindWildcards = (route: RouterRoute): void => {
+  if (route.isMiddleware || !route.path.includes('*')) return;
+  const paths = toMatcherPaths(route.path).filter(p => p.includes('*'));
+  if (paths.length) routeWildcards.set(route, paths.map(wildcardRegExp));
+};
+
+/**
+ * Captures the unnamed `*` wildcards of a route from the matched path, by wildcard index.
+ */
+export const captureWildcards = (route: RouterRoute, path: string): string[] | undefined => {
+  const regExps = routeWildcards.get(route);
+  if (!regExps) return undefined;
+  for (const regExp of regExps) {
+    const groups = regExp.exec(path)?.groups;
+    if (groups) return Object.keys(groups).map(key => groups[key] ?? '');
+  }
+  return undefined;
+};
+
+/**
+ * Maps the param keys of a match to the param names declared by the route.
+ */
+export const declaredParams = (route: RouterRoute, keys: string[]): string[] => {
+  const segments = routeSegments.get(route);
+  return segments ? keys.flatMap(key => segments[key]?.names ?? key) : keys;
+};
+
+/**
+ * Resolves the Express 5 syntax of a path for URL generation, keeping the matchers' syntax.
+ *
+ * Picks the longest optional group combination whose params are all given, and
+ * fills named wildcards and embedded params.
+ *
+ * @example
+ * ```ts
+ * resolveUrlPath('/files{/:name}{.:ext}', {name: 'a'}); // '/files/a'
+ * ```
+ */
+export const resolveUrlPath = (path: string, params: Record<string, unknown>): string => {
+  const given = (name: string) => params[name] !== undefined && params[name] !== null && params[name] !== '';
+  const variants = expandGroups(path);
+  const variant =
+    variants.findLast(v => [...v.matchAll(new RegExp(`[:*](${NAME})`, 'g'))].every(([, name]) => given(name))) ??
+    variants.at(-1)!;
+
+  return `/${splitRoutingPath(variant)
+    .map(segment => {
+      const wildcard = segment.match(namedWildcardRegExp);
+      if (!wildcard && !hasEmbeddedParams(segment)) return segment;
+
+      const valueOf = (name: string) => {
+        if (!given(name)) throw new Error(`Missing value for parameter "${name}" in path: ${path}`);
+        return String(params[name]);
+      };
+      return wildcard
+        ? valueOf(wildcard[1]).split('/').map(encodeURIComponent).join('/')
+        : segment.replace(new RegExp(EMBEDDED_PARAM, 'g'), (_, name) => encodeURIComponent(valueOf(name)));
+    })
+    .join('/')}`;
+};
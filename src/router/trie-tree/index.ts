@@ -1,32 +1,46 @@
 import {Node} from './node';
 import {checkOptionalParameter} from './utils';
+import {UnsupportedPathError} from '../errors';
 import type {Result, Router} from '../../types';
 
 // TrieRouter implements a simple HTTP router using a Trie (prefix tree) structure.
 export class TrieRouter<T> implements Router<T> {
   name: string = 'TrieRouter';
   #node: Node<T>;
+  #ignoreCase: boolean;
 
-  constructor() {
+  constructor(options: {caseSensitive?: boolean} = {}) {
     this.#node = new Node();
+    this.#ignoreCase = options.caseSensitive === false;
   }
 
-  add(method: string, path: string, handler: T) {
+  add(method: string, path: string | RegExp, handler: T) {
+    if (typeof path !== 'string') throw new UnsupportedPathError(String(path));
+
     // Check if the path contains optional parameters and expand them
     const results = checkOptionalParameter(path);
     if (results) {
       // Insert each expanded path into the trie
       for (let i = 0, len = results.length; i < len; i++) {
-        this.#node.insert(method, results[i], handler);
+        this.#node.insert(method, results[i], handler, this.#ignoreCase);
       }
       return;
     }
 
     // Insert the route directly if there are no optional parameters
-    this.#node.insert(method, path, handler);
+    this.#node.insert(method, path, handler, this.#ignoreCase);
+  }
+
+  remove(method: string, path: string | RegExp, handler: T) {
+    if (typeof path !== 'string') return;
+    // Optional parameters were inserted as several paths, remove each of them
+    const paths = checkOptionalParameter(path) || [path];
+    for (let i = 0, len = paths.length; i < len; i++) {
+      this.#node.remove(method, paths[i], handler, this.#ignoreCase);
+    }
   }
 
   match(method: string, path: string): Result<T> {
-    return this.#node.search(method, path);
+    return this.#node.search(method, path, this.#ignoreCase);
   }
 }
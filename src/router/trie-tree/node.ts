@@ -14,6 +14,14 @@ type HandlerParamsSet<T> = HandlerSet<T> & {
 
 const emptyParams = Object.create(null);
 
+// Case-insensitive copies of the pattern RegExps, used when the router ignores case
+const ignoreCaseCache = new WeakMap<RegExp, RegExp>();
+const withIgnoreCase = (re: RegExp): RegExp => {
+  let copy = ignoreCaseCache.get(re);
+  if (!copy) ignoreCaseCache.set(re, (copy = new RegExp(re, 'i')));
+  return copy;
+};
+
 export class Node<T> {
   #methods: Record<string, HandlerSet<T>>[];
 
@@ -33,7 +41,7 @@ export class Node<T> {
     this.#patterns = [];
   }
 
-  insert(method: string, path: string, handler: T): Node<T> {
+  insert(method: string, path: string, handler: T, ignoreCase = false): Node<T> {
     this.#order = ++this.#order;
 
     // eslint-disable-next-line @typescript-eslint/no-this-alias
@@ -46,7 +54,7 @@ export class Node<T> {
       const p: string = parts[i];
       const nextP = parts[i + 1];
       const pattern = getPattern(p, nextP);
-      const key = Array.isArray(pattern) ? pattern[0] : p;
+      const key = Array.isArray(pattern) ? pattern[0] : ignoreCase ? p.toLowerCase() : p;
 
       if (key in curNode.#children) {
         curNode = curNode.#children[key];
@@ -76,6 +84,26 @@ export class Node<T> {
     return curNode;
   }
 
+  remove(method: string, path: string, handler: T, ignoreCase = false): void {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    let curNode: Node<T> = this;
+    const parts = splitRoutingPath(path);
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const p: string = parts[i];
+      const pattern = getPattern(p, parts[i + 1]);
+      const key = Array.isArray(pattern) ? pattern[0] : ignoreCase ? p.toLowerCase() : p;
+
+      if (!(key in curNode.#children)) {
+        return;
+      }
+      curNode = curNode.#children[key];
+    }
+
+    // Empty nodes are kept: they never yield handlers and are reused by later inserts
+    curNode.#methods = curNode.#methods.filter(m => m[method]?.handler !== handler);
+  }
+
   #getHandlerSets(
     node: Node<T>,
     method: string,
@@ -103,7 +131,7 @@ export class Node<T> {
     return handlerSets;
   }
 
-  search(method: string, path: string): [[T, Params][]] {
+  search(method: string, path: string, ignoreCase = false): [[T, Params][]] {
     const handlerSets: HandlerParamsSet<T>[] = [];
     this.#params = emptyParams;
 
@@ -111,6 +139,8 @@ export class Node<T> {
     const curNode: Node<T> = this;
     let curNodes = [curNode];
     const parts = splitPath(path);
+    // Static children are keyed in lowercase when ignoring case
+    const keys = ignoreCase ? splitPath(path.toLowerCase()) : parts;
     const curNodesQueue: Node<T>[][] = [];
 
     for (let i = 0, len = parts.length; i < len; i++) {
@@ -120,7 +150,7 @@ export class Node<T> {
 
       for (let j = 0, len2 = curNodes.length; j < len2; j++) {
         const node = curNodes[j];
-        const nextNode = node.#children[part];
+        const nextNode = node.#children[keys[i]];
 
         if (nextNode) {
           nextNode.#params = node.#params;
@@ -151,7 +181,8 @@ export class Node<T> {
             continue;
           }
 
-          const [key, name, matcher] = pattern;
+          const [key, name, re] = pattern;
+          const matcher = ignoreCase && re instanceof RegExp ? withIgnoreCase(re) : re;
 
           if (!part && !(matcher instanceof RegExp)) {
             continue;
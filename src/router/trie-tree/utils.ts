@@ -91,13 +91,14 @@ export const checkOptionalParameter = (path: string): string[] | null => {
     if (segment !== '' && !/\:/.test(segment)) {
       basePath += '/' + segment;
     } else if (/\:/.test(segment)) {
-      if (/\?/.test(segment)) {
+      // Only a trailing `?` marks it optional, constraints may contain `(?:...)`
+      if (segment.endsWith('?')) {
         if (results.length === 0 && basePath === '') {
           results.push('/');
         } else {
           results.push(basePath);
         }
-        const optionalSegment = segment.replace('?', '');
+        const optionalSegment = segment.slice(0, -1);
         basePath += '/' + optionalSegment;
         results.push(basePath);
       } else {
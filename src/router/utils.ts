@@ -60,10 +60,11 @@ export const checkOptionalParameter = (path: string): string[] | null => {
       basePath += '/' + segment;
     } else if (segment.includes(':')) {
       // Handle parameterized segments
-      if (segment.includes('?')) {
+      // Only a trailing `?` marks it optional, constraints may contain `(?:...)`
+      if (segment.endsWith('?')) {
         // If it's optional, include both versions
         results.push(basePath === '' ? '/' : basePath);
-        const optionalSegment = segment.replace('?', '');
+        const optionalSegment = segment.slice(0, -1);
         basePath += '/' + optionalSegment;
         results.push(basePath);
       } else {
@@ -100,3 +101,70 @@ export function buildWildcardRegExp(path: string): RegExp {
 export function clearWildcardRegExpCache() {
   wildcardRegExpCache = Object.create(null);
 }
+
+/**
+ * Builds a concrete path from a route pattern and parameter values.
+ *
+ * Example:
+ *   fillPath('/users/:id{[0-9]+}/posts/:slug?', {id: 42})
+ *   → '/users/42/posts'
+ *
+ * Values are URL-encoded, regex-constrained parameters are validated,
+ * and missing required parameters throw.
+ */
+export const fillPath = (path: string, params: Record<string, unknown>): string => {
+  if (path.includes('*')) {
+    throw new Error(`Cannot build a URL for wildcard path: ${path}`);
+  }
+
+  const filled = path.replace(
+    /\/:([^/{}?]+)(?:\{((?:[^{}]|\{[^{}]*\})+)\})?(\?)?/g,
+    (_, name: string, constraint: string | undefined, optional: string | undefined) => {
+      const value = params[name];
+      if (value === undefined || value === null || value === '') {
+        if (optional) return '';
+        throw new Error(`Missing value for parameter "${name}" in path: ${path}`);
+      }
+      if (constraint && !new RegExp(`^(?:${constraint})$`).test(String(value))) {
+        throw new Error(`Value "${value}" for parameter "${name}" does not match {${constraint}} in path: ${path}`);
+      }
+      return `/${encodeURIComponent(String(value))}`;
+    },
+  );
+
+  return filled || '/';
+};
+
+/**
+ * Converts a mount prefix into a RegExp matching the start of a request path.
+ *
+ * Example:
+ *   /api/users/:id → /^\/api\/users\/[^/]+(?=\/|$)/
+ */
+export const buildMountRegExp = (prefix: string): RegExp =>
+  new RegExp(
+    `^${prefix.replace(
+      /\/:[^/{}?]+(?:\{((?:[^{}]|\{[^{}]*\})+)\})?(\?)?|\/\*$|\/$|[.\\+*[^\]$()?|{}]/g,
+      (token: string, constraint: string | undefined, optional: string | undefined) => {
+        if (token === '/') return '';
+        if (token === '/*') return '(?:/.*)?';
+        if (token.length === 1) return `\\${token}`;
+        const segment = `/${constraint ? `(?:${constraint})` : '[^/]+'}`;
+        return optional ? `(?:${segment})?` : segment;
+      },
+    )}(?=/|$)`,
+  );
+
+/**
+ * Prefixes a RegExp route path with a mount prefix.
+ * The RegExp is matched against the rest of the path (anywhere in it, unless anchored with `^`).
+ *
+ * Example:
+ *   /api + /^\/legacy\/(\d+)$/ → /^\/api(?:\/legacy\/(\d+)$)/
+ */
+export const mergeRegExpPath = (prefix: string, pattern: RegExp): RegExp => {
+  if (prefix === '/' || prefix === '') return pattern;
+  const mount = buildMountRegExp(prefix).source.replace(/\(\?=\/\|\$\)$/, '');
+  const rest = pattern.source.startsWith('^') ? pattern.source.slice(1) : `.*?(?:${pattern.source})`;
+  return new RegExp(`${mount}(?:${rest})`, pattern.flags);
+};
@@ -29,9 +29,129 @@ type NumberOf<K> = Extract<K, number>;
  */
 export type RType = void | string | ApiRes | Record<string, any>;
 
+/**
+ * Flattens an intersection of object types into a single object type.
+ */
+type Simplify<T> = {[K in keyof T]: T[K]};
+
+/**
+ * Maps param converter names (`:id<int>`) to the type of their parsed value.
+ *
+ * Augment it to type converters added with `Router.registerConverter()`.
+ *
+ * @example
+ * ```ts
+ * declare module 'exstack/types' {
+ *   interface ParamConverters {
+ *     hex: number;
+ *   }
+ * }
+ * ```
+ */
+export interface ParamConverters {
+  int: number;
+  slug: string;
+  uuid: string;
+  isodate: Date;
+}
+
+/**
+ * Resolves the value type of a converter, `unknown` if it is not declared in {@link ParamConverters}.
+ */
+type ConverterValue<C extends string> = C extends keyof ParamConverters ? ParamConverters[C] : unknown;
+
+/**
+ * Parses the parameter declared by a single path segment.
+ *
+ * @example
+ * ```ts
+ * type A = SegmentParams<':id{[0-9]+}'>; // { id: string }
+ * type B = SegmentParams<':tab?'>; // { tab?: string }
+ * type C = SegmentParams<':id<int>'>; // { id: number }
+ * type D = SegmentParams<'*splat'>; // { splat: string }
+ * type E = SegmentParams<'*'>; // { 0: string }
+ * type F = SegmentParams<'users'>; // unknown
+ * ```
+ */
+type SegmentParams<S extends string> = S extends `*${infer Name}`
+  ? {[K in Name extends '' ? '0' : Name]: string}
+  : S extends `:${infer Rest}`
+    ? Rest extends `${infer Name}{${string}`
+      ? Rest extends `${string}}?`
+        ? {[K in Name]?: string}
+        : {[K in Name]: string}
+      : Rest extends `${infer Name}<${infer C}>${infer Optional}`
+        ? Optional extends '?'
+          ? {[K in Name]?: ConverterValue<C>}
+          : {[K in Name]: ConverterValue<C>}
+        : Rest extends `${infer Name}?`
+          ? {[K in Name]?: string}
+          : {[K in Rest]: string}
+    : unknown;
+
+/**
+ * Walks a path segment by segment, intersecting the parameters of each segment.
+ */
+type ParsePath<P extends string> = P extends `${infer Head}/${infer Tail}`
+  ? SegmentParams<Head> & ParsePath<Tail>
+  : SegmentParams<P>;
+
+/**
+ * Express 5 optional groups (`{/:id}`, `{.:ext}`) and params embedded in a segment (`/files.:ext`).
+ */
+type GroupedPath =
+  | `${string}{/${string}`
+  | `${string}{.:${string}`
+  | `${string}{-:${string}`
+  | `${string}${'.' | '-'}:${string}`;
+
+/**
+ * Infers the route parameters declared by a path literal.
+ *
+ * Falls back to {@link Params} when the path is not a literal type or uses optional groups or embedded params.
+ *
+ * @example
+ * ```ts
+ * type P = PathParams<'/users/:userId/posts/:postId?'>;
+ * // { userId: string; postId?: string }
+ * ```
+ */
+export type PathParams<P extends string> = string extends P
+  ? Params
+  : P extends GroupedPath
+    ? Params
+    : Simplify<ParsePath<P>>;
+
+/**
+ * Merges parent route parameters with the parameters of a child route.
+ *
+ * Child parameters take precedence, mirroring how the router merges `req.params`.
+ *
+ * @example
+ * ```ts
+ * type P = MergeParams<{ version: string }, { id: string }>; // { version: string; id: string }
+ * ```
+ */
+export type MergeParams<Parent, Child> = Simplify<Omit<Parent, keyof Child> & Child>;
+
+/**
+ * An Express request whose `params` and `param()` helper are typed by `P`.
+ */
+export type TypedRequest<P = Params> = (string extends keyof P
+  ? Request<P>
+  : {param<K extends keyof P & string>(key: K): P[K]} & Request<P>) & {
+  /**
+   * The endpoint route handling the request, with its metadata: for middleware, the endpoint it
+   * runs ahead of. Express types `req.route` as `any`; this is the same route, typed.
+   */
+  endpoint?: RouterRoute;
+};
+
 /**
  * Represents a standard Express-style route handler.
  *
+ * @template P - The route parameters available on `req.params` (see {@link PathParams}).
+ *
  * @remarks
  * The handler may return:
  * - a plain value (string, object, etc.)
@@ -40,7 +160,31 @@ export type RType = void | string | ApiRes | Record<string, any>;
  *
  * The framework will automatically detect and send the result.
  */
-export type Handler = (req: Request, res: Response, next: NextFunction) => RType | Promise<RType>;
+export type Handler<P = Params> = (req: TypedRequest<P>, res: Response, next: NextFunction) => RType | Promise<RType>;
+
+/**
+ * Represents a router-scoped error handler registered via `Router.onError()`.
+ *
+ * @remarks
+ * Like {@link Handler}, the returned value is sent automatically. Calling
+ * `next(err)` delegates the error to the enclosing router, and finally to Express.
+ */
+export type ErrorHandler = (err: any, req: Request, res: Response, next: NextFunction) => RType | Promise<RType>;
+
+/**
+ * Represents a parameter callback registered via `Router.param()`.
+ *
+ * @remarks
+ * Call `next()` to continue (or resolve the returned `Promise`); throwing or
+ * calling `next(err)` skips the route and passes the error to the error handlers.
+ */
+export type ParamHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  value: any,
+  name: string,
+) => void | Promise<void>;
 
 /**
  * Extracts numeric status codes from {@link HttpStatus}.
@@ -91,14 +235,170 @@ export type ClientErrorStatusCode = Exclude<
 export interface RouterRoute<T = Handler> {
   /** Base path prefix (e.g., `/api`). */
   basePath: string;
-  /** The route pattern (e.g., `/users/:id`). */
+  /** The route pattern (e.g., `/users/:id`), or the string form of {@link RouterRoute.pattern}. */
   path: string;
+  /** The RegExp of a route registered with a RegExp path, including the mount prefix. */
+  pattern?: RegExp;
   /** The HTTP method for this route (e.g., `'get'`, `'post'`). */
   method: string;
   /** The request handler function. */
   handler: T;
+  /** Whether the route was registered via `use()` (middleware) rather than as an endpoint. */
+  isMiddleware?: boolean;
+  /** Whether the handler is middleware of an enclosing `group()`, run ahead of the endpoint's handlers. */
+  isScoped?: boolean;
+  /** Unique route name used for reverse URL generation (e.g., `'users.show'`). */
+  name?: string;
+  /** Metadata given at registration. */
+  meta?: RouteMeta;
 }
 
+/**
+ * Metadata attached to a route at registration, read back via `req.endpoint.meta` and the route table.
+ *
+ * Augment it to type custom fields:
+ *
+ * @example
+ * ```ts
+ * declare module 'exstack/types' {
+ *   interface RouteMeta {
+ *     audit?: boolean;
+ *   }
+ * }
+ * ```
+ */
+export interface RouteMeta {
+  /** Tags grouping the route (e.g. in API docs). */
+  tags?: string[];
+  /** Short description of the route. */
+  summary?: string;
+  /** Roles required to access the route. */
+  roles?: string[];
+  /** Rate-limit tier of the route. */
+  rateLimit?: string;
+  /** Whether the route is deprecated, or a deprecation notice. */
+  deprecated?: boolean | string;
+  [key: string]: unknown;
+}
+
+/**
+ * The route of the endpoint handling a request, exposed as `req.matchedRoute`.
+ */
+export interface MatchedRoute {
+  /** The templated route path, mount prefix included (e.g., `/api/users/:id`). */
+  pattern: string;
+  /** The HTTP method the route was registered with (`'ALL'` for `all()`). */
+  method: string;
+  /** The prefix the route is mounted under via `route()` or `group()` (e.g., `/api`). */
+  prefix: string;
+  /** The full route definition. */
+  route: RouterRoute;
+}
+
+/**
+ * Options accepted when registering a route.
+ *
+ * @example
+ * ```ts
+ * router.get('/users/:id', {name: 'users.show', meta: {tags: ['users']}}, handler);
+ * ```
+ */
+export interface RouteOptions {
+  /** Unique route name used by `Router.url()`. */
+  name?: string;
+  /** Metadata attached to the route (see {@link RouteMeta}). */
+  meta?: RouteMeta;
+}
+
+/**
+ * Actions of a REST resource, registered by `Router.resource()`:
+ *
+ * | Action    | Method   | Path         |
+ * | --------- | -------- | ------------ |
+ * | `index`   | `GET`    | `/users`     |
+ * | `create`  | `POST`   | `/users`     |
+ * | `show`    | `GET`    | `/users/:id` |
+ * | `update`  | `PUT`    | `/users/:id` |
+ * | `patch`   | `PATCH`  | `/users/:id` |
+ * | `destroy` | `DELETE` | `/users/:id` |
+ */
+export type ResourceAction = 'index' | 'create' | 'show' | 'update' | 'patch' | 'destroy';
+
+/**
+ * A controller for `Router.resource()`; only the actions it implements are registered.
+ *
+ * @template C - Parameters of the collection actions (`index`, `create`).
+ * @template M - Parameters of the member actions, including the resource param.
+ */
+export interface ResourceController<C = Params, M = Params> {
+  index?: Handler<C>;
+  create?: Handler<C>;
+  show?: Handler<M>;
+  update?: Handler<M>;
+  patch?: Handler<M>;
+  destroy?: Handler<M>;
+}
+
+/**
+ * Options accepted by `Router.resource()`.
+ *
+ * @example
+ * ```ts
+ * router.resource('/users', users, {except: ['destroy'], param: 'userId'});
+ * ```
+ */
+export interface ResourceOptions<K extends string = 'id'> {
+  /** Actions to register, all by default. */
+  only?: ResourceAction[];
+  /** Actions to skip. */
+  except?: ResourceAction[];
+  /** Name of the member route param (default: `'id'`). */
+  param?: K;
+  /** Prefix of the route names (default: the static segments of the path joined by dots, e.g. `users.posts`). */
+  name?: string;
+  /** Metadata attached to every route, along with the `resource` name and `action`. */
+  meta?: RouteMeta;
+}
+
+/**
+ * Options accepted by the `Router` constructor, mirroring the Express router options.
+ *
+ * Defaults keep paths case-sensitive and strict, and merge parent params.
+ *
+ * @example
+ * ```ts
+ * const router = new Router({strategy: 'trie', caseSensitive: false, strict: false});
+ * ```
+ */
+export interface RouterOptions {
+  /**
+   * Matcher used for lookups: `'smart'` picks RegExp or Trie automatically, and Pattern
+   * for RegExp paths (default: `'smart'`). `'pattern'` tests each route's RegExp in turn.
+   * `'regexp'` cannot build some tables (e.g. `/users/:id` next to `/users/me`): registering
+   * the offending route then throws, naming its path.
+   */
+  strategy?: 'smart' | 'regexp' | 'trie' | 'pattern';
+  /** Whether `/Users` and `/users` are different paths (default: `true`). */
+  caseSensitive?: boolean;
+  /** Whether `/users` and `/users/` are different paths (default: `true`). */
+  strict?: boolean;
+  /** Whether `req.params` set by an enclosing Express router are kept (default: `true`). */
+  mergeParams?: boolean;
+  /**
+   * Redirect requests whose path only matches with the trailing slash toggled,
+   * using `301` for `GET`/`HEAD` and `308` otherwise (default: `false`).
+   * With `strict: false`, the canonical path is the one without trailing slash.
+   */
+  redirectTrailingSlash?: boolean;
+  /** Number of match results kept in an LRU cache for hot paths (default: `0`, disabled). */
+  cacheSize?: number;
+}
+
+/**
+ * Query values accepted by `Router.url()`; arrays produce repeated keys.
+ */
+export type UrlQuery = Record<string, string | number | boolean | null | undefined | (string | number | boolean)[]>;
+
 /**
  * Defines the structure of a router that can register and match routes.
  *
@@ -125,10 +425,22 @@ export interface Router<T = Handler> {
    * Registers a new route.
    *
    * @param method - HTTP method (e.g., `'get'`, `'post'`).
-   * @param path - Route pattern (e.g., `'/users/:id'`).
+   * @param path - Route pattern (e.g., `'/users/:id'`), or a RegExp for routers supporting them.
    * @param handler - The route handler.
+   * @throws {UnsupportedPathError} If the router cannot handle the path.
+   */
+  add(method: string, path: string | RegExp, handler: T): void;
+
+  /**
+   * Removes a previously registered route handler.
+   *
+   * Optional: routers without it cannot drop routes once they are selected.
+   *
+   * @param method - HTTP method the handler was registered with.
+   * @param path - Route pattern the handler was registered with.
+   * @param handler - The exact handler passed to {@link Router.add}.
    */
-  add(method: string, path: string, handler: T): void;
+  remove?(method: string, path: string | RegExp, handler: T): void;
 
   /**
    * Finds the best route match for a given HTTP method and path.
@@ -210,11 +522,66 @@ export const METHOD_NAME_ALL = 'ALL';
 export const METHOD_NAME_ALL_LOWERCASE = 'all' as const;
 
 /**
- * Supported HTTP methods (lowercase).
+ * HTTP methods with a registration helper on the router (lowercase).
+ *
+ * Other methods (e.g. WebDAV's `PROPFIND`) can be registered with `Router.method()`.
  *
  * @example
  * ```ts
  * METHODS.forEach(method => router.add(method, '/ping', pingHandler));
  * ```
  */
-export const METHODS = ['get', 'post', 'put', 'delete', 'options', 'patch'] as const;
+export const METHODS = ['get', 'post', 'put', 'delete', 'options', 'patch', 'head'] as const;
+
+/**
+ * A grouped entry of the route table, as returned by `Router.inspect()`.
+ *
+ * Handlers registered for the same method, path and kind are merged into a single entry.
+ */
+export interface RouteInfo {
+  /** The HTTP method (e.g., `'GET'`), or `'ALL'` for method-agnostic routes. */
+  method: string;
+  /** The full route pattern (e.g., `/api/users/:id`). */
+  path: string;
+  /** Whether the entry comes from `use()` middleware or an endpoint registration. */
+  type: 'middleware' | 'endpoint';
+  /** Handler function names, in registration order (`<anonymous>` when unnamed). */
+  handlers: string[];
+  /** Names of the `group()` middleware running ahead of the handlers, if any. */
+  middleware?: string[];
+  /** Route name given at registration, if any. */
+  name?: string;
+  /** Route metadata given at registration, if any. */
+  meta?: RouteMeta;
+}
+
+/**
+ * A JSON-serializable snapshot of a router's route table.
+ */
+export interface RouteTable {
+  /** Name of the matcher selected by `SmartRouter`, or `null` before the first request. */
+  matcher: string | null;
+  /** Grouped route entries, in registration order. */
+  routes: RouteInfo[];
+}
+
+/**
+ * A problem of the route table, as reported by `Router.lint()`.
+ *
+ * - `duplicate`: the same method and path is registered more than once.
+ * - `shadowed`: an earlier route matches every request of this one, so it only runs if the earlier one calls `next()`.
+ * - `param-conflict`: routes name the parameter at the same position differently.
+ * - `fallback`: the path is not supported by `RegExpRouter`, forcing `SmartRouter` to use `TrieRouter`.
+ */
+export interface RouteLintIssue {
+  /** The kind of issue. */
+  type: 'duplicate' | 'shadowed' | 'param-conflict' | 'fallback';
+  /** The HTTP method of the offending route. */
+  method: string;
+  /** The full pattern of the offending route. */
+  path: string;
+  /** The pattern of the route it conflicts with, if any. */
+  conflictsWith?: string;
+  /** A human-readable description. */
+  message: string;
+}
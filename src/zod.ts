@@ -1,5 +1,6 @@
 import type * as z from 'zod';
 import {HttpError} from './helps';
+import {Use} from './decorators';
 import type {RequestHandler} from 'express';
 import {flattenError, prettifyError} from 'zod';
 
@@ -115,6 +116,22 @@ class Validator {
  */
 export const validator = new Validator();
 
+/**
+ * Decorator validating request parts before a controller method runs (see `@Use()` and {@link validator}).
+ *
+ * @param schema - Object containing Zod schemas for the request parts to validate.
+ *
+ * @example
+ * ```ts
+ * @Post('/')
+ * @Validate({body: createUserSchema})
+ * create(req: Request) {
+ *   return users.create(req.valid('body'));
+ * }
+ * ```
+ */
+export const Validate = (schema: Schema<'all'>) => Use(validator.all(schema));
+
 /**
  * Extends Express Request.
  */
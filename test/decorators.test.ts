@@ -0,0 +1,158 @@
+import * as z from 'zod';
+import express from 'express';
+import request from 'supertest';
+import {describe, expect, it, vi} from 'vitest';
+import {Validate} from '../src/zod';
+import {ApiRes, Controller, Delete, errorHandler, Get, Post, Route, Router, Use} from '../src';
+import type {Handler} from '../src/types';
+
+const serve = (router: Router) => {
+  const app = express();
+  app.use(express.json());
+  app.use(router.dispatch);
+  app.use(errorHandler(false, () => {}));
+  return app;
+};
+
+const tag =
+  (log: string[], name: string): Handler =>
+  (req, res, next) => {
+    log.push(name);
+    next();
+  };
+
+// Tests for decorator-based controllers
+describe('Decorator controllers', () => {
+  it('Should register routes and send return values', async () => {
+    @Controller('/users')
+    class UsersController {
+      users = ['ada', 'grace'];
+
+      @Get()
+      index() {
+        return ApiRes.ok(this.users);
+      }
+
+      @Get('/:id', {name: 'users.show', meta: {tags: ['users']}})
+      show(req: express.Request) {
+        return {user: this.users[Number(req.params.id)]};
+      }
+
+      @Route('PURGE', '/cache')
+      purge() {
+        return 'purged';
+      }
+
+      helper() {
+        return 'not a route';
+      }
+    }
+
+    const router = Router.fromControllers([UsersController]);
+    const app = serve(router);
+
+    expect((await request(app).get('/users')).body.result).toEqual(['ada', 'grace']);
+    expect((await request(app).get('/users/1')).body).toEqual({user: 'grace'});
+    expect((await request(app).purge('/users/cache')).text).toBe('purged');
+    expect(router.url('users.show', {id: 0})).toBe('/users/0');
+    expect(router.inspect().routes.map(r => [r.method, r.path, r.handlers, r.meta])).toEqual([
+      ['GET', '/users', ['UsersController.index'], undefined],
+      ['GET', '/users/:id', ['UsersController.show'], {tags: ['users']}],
+      ['PURGE', '/users/cache', ['UsersController.purge'], undefined],
+    ]);
+  });
+
+  it('Should register routes inherited from base controllers', async () => {
+    class BaseController {
+      @Get('/ping')
+      ping() {
+        return 'pong';
+      }
+
+      @Get('/version')
+      version() {
+        return 'v1';
+      }
+
+      @Get('/status')
+      status() {
+        return 'base';
+      }
+    }
+
+    @Controller('/x')
+    class ChildController extends BaseController {
+      version() {
+        return 'v2';
+      }
+
+      @Get('/health')
+      status() {
+        return 'child';
+      }
+    }
+
+    const router = Router.fromControllers([ChildController]);
+    const app = serve(router);
+
+    expect((await request(app).get('/x/ping')).text).toBe('pong');
+    expect((await request(app).get('/x/version')).text).toBe('v2');
+    expect((await request(app).get('/x/health')).text).toBe('child');
+    expect((await request(app).get('/x/status')).status).toBe(404);
+    expect(router.inspect().routes.map(r => r.path)).toEqual(['/x/ping', '/x/version', '/x/health']);
+  });
+
+  it('Should run controller and method middleware in declaration order', async () => {
+    const log: string[] = [];
+
+    @Controller('/admin')
+    @Use(tag(log, 'controller'))
+    class AdminController {
+      @Post('/ban')
+      @Use(tag(log, 'first'), tag(log, 'second'))
+      @Use(tag(log, 'third'))
+      ban() {
+        log.push('ban');
+        return 'banned';
+      }
+
+      @Delete('/cache')
+      clear() {
+        log.push('clear');
+        return 'cleared';
+      }
+    }
+
+    const app = serve(Router.fromControllers([new AdminController()]));
+
+    expect((await request(app).post('/admin/ban')).text).toBe('banned');
+    expect(log).toEqual(['controller', 'first', 'second', 'third', 'ban']);
+    log.length = 0;
+    expect((await request(app).delete('/admin/cache')).text).toBe('cleared');
+    expect(log).toEqual(['controller', 'clear']);
+  });
+
+  it('Should validate requests with @Validate()', async () => {
+    const create = vi.fn((req: express.Request) => ({created: req.valid('body')}));
+
+    @Controller('/users')
+    class UsersController {
+      @Post()
+      @Validate({body: z.object({name: z.string()})})
+      create(req: express.Request) {
+        return create(req);
+      }
+    }
+
+    const app = serve(Router.fromControllers([UsersController]));
+
+    expect((await request(app).post('/users').send({name: 'ada'})).body).toEqual({created: {name: 'ada'}});
+    expect((await request(app).post('/users').send({name: 1})).status).toBe(400);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('Should reject classes without decorators', () => {
+    class Plain {}
+    expect(() => Router.fromControllers([Plain])).toThrow('Plain is not a controller');
+  });
+});
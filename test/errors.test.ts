@@ -9,6 +9,7 @@ import {
   UnAuthorizedError,
   InternalServerError,
   ContentTooLargeError,
+  MethodNotAllowedError,
 } from '../src';
 
 // Mock Express response
@@ -83,6 +84,7 @@ describe('HttpError Sub-Classes', () => {
     {Class: UnAuthorizedError, status: HttpStatus.UNAUTHORIZED, name: 'UnauthorizedError'},
     {Class: InternalServerError, status: HttpStatus.INTERNAL_SERVER_ERROR, name: 'InternalServerError'},
     {Class: ContentTooLargeError, status: HttpStatus.PAYLOAD_TOO_LARGE, name: 'PayloadTooLargeError'},
+    {Class: MethodNotAllowedError, status: HttpStatus.METHOD_NOT_ALLOWED, name: 'MethodNotAllowedError'},
   ];
 
   testCases.forEach(({Class, status, name}) => {
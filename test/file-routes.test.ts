@@ -0,0 +1,71 @@
+import express from 'express';
+import request from 'supertest';
+import {join} from 'node:path';
+import {mkdtemp, rm, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {loadRoutes} from '../src';
+import {describe, expect, it, beforeAll} from 'vitest';
+
+const fixtures = join(import.meta.dirname, 'fixtures/routes');
+
+// Tests for the file-system route loader
+describe('loadRoutes', () => {
+  let app: express.Express;
+
+  beforeAll(async () => {
+    const router = await loadRoutes(fixtures);
+    app = express();
+    app.use(express.json());
+    app.use(router.dispatch);
+  });
+
+  it('Should build the route table from the directory', async () => {
+    const router = await loadRoutes(fixtures);
+    expect(router.inspect().routes.map(r => `${r.method} ${r.path}`)).toEqual([
+      'ALL /*',
+      'GET /',
+      'ALL /admin/*',
+      'GET /admin/stats',
+      'GET /files/*path',
+      'GET /users',
+      'POST /users',
+      'GET /users/me',
+      'GET /users/:id',
+      'DELETE /users/:id',
+      'GET /users/:id/posts',
+    ]);
+  });
+
+  it('Should serve index, static and param routes', async () => {
+    expect((await request(app).get('/')).text).toBe('hello');
+    expect((await request(app).get('/users')).body).toEqual({users: ['ada']});
+    expect((await request(app).get('/users/me')).text).toBe('me');
+    expect((await request(app).get('/users/7')).body).toEqual({id: '7'});
+    expect((await request(app).delete('/users/7')).text).toBe('deleted 7');
+    expect((await request(app).get('/users/7/posts')).body).toEqual({id: '7'});
+  });
+
+  it('Should apply handler arrays and wildcards', async () => {
+    expect((await request(app).post('/users').send({name: 'ada'})).status).toBe(200);
+    expect((await request(app).post('/users').send({})).status).toBe(400);
+    expect((await request(app).get('/files/a/b/c.txt')).body).toEqual({path: 'a/b/c.txt'});
+  });
+
+  it('Should scope _middleware files to their subtree', async () => {
+    expect((await request(app).get('/')).headers['x-powered-by']).toBe('routes');
+    expect((await request(app).get('/admin/stats')).status).toBe(401);
+    const stats = await request(app).get('/admin/stats').set('authorization', 'secret');
+    expect(stats.body).toEqual({requests: 1});
+    expect(stats.headers['x-powered-by']).toBe('routes');
+  });
+
+  it('Should reject route files without handlers', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'exstack-routes-'));
+    try {
+      await writeFile(join(dir, 'broken.mjs'), 'export const greeting = "hi";\n');
+      await expect(loadRoutes(dir)).rejects.toThrow('exports no route handlers');
+    } finally {
+      await rm(dir, {recursive: true});
+    }
+  });
+});
@@ -0,0 +1,8 @@
+import type {Handler} from '../../../src/types';
+
+const poweredBy: Handler = (req, res, next) => {
+  res.setHeader('x-powered-by', 'routes');
+  next();
+};
+
+export default poweredBy;
@@ -0,0 +1,8 @@
+import type {Handler} from '../../../../src/types';
+
+const auth: Handler = (req, res, next) => {
+  if (req.headers.authorization === 'secret') return next();
+  res.status(401).send('unauthorized');
+};
+
+export default [auth];
@@ -0,0 +1,3 @@
+import type {Handler} from '../../../../src/types';
+
+export const get: Handler = req => ({path: req.params.path});
@@ -0,0 +1,3 @@
+import {greeting} from './_helpers';
+
+export const get = () => greeting;
@@ -0,0 +1,6 @@
+import type {Handler} from '../../../../src/types';
+
+export const get: Handler<{id: string}> = req => ({id: req.params.id});
+
+// `delete` is a reserved word, so the DELETE handler is exported as `del`
+export const del: Handler<{id: string}> = req => `deleted ${req.params.id}`;
@@ -0,0 +1,10 @@
+import type {Handler} from '../../../../src/types';
+
+const validate: Handler = (req, res, next) => {
+  if (!req.body?.name) res.status(400);
+  next();
+};
+
+export const get = () => ({users: ['ada']});
+
+export const post = [validate, () => 'created'];
@@ -0,0 +1,92 @@
+import {Router} from '../src';
+import {describe, expect, it, vi} from 'vitest';
+
+function logger() {}
+function list() {}
+function create() {}
+function show() {}
+
+// Tests for route table introspection
+describe('Router inspection', () => {
+  const createRouter = () => {
+    const users = new Router();
+    users.get('/:id', show);
+
+    const router = new Router();
+    router.use(logger);
+    router.get('/users', logger, list);
+    router.post('/users', create);
+    router.route('/users', users);
+    return router;
+  };
+
+  it('Should group handlers per method and path', () => {
+    const {matcher, routes} = createRouter().inspect();
+    expect(matcher).toBeNull();
+    expect(routes).toEqual([
+      {method: 'ALL', path: '/*', type: 'middleware', handlers: ['logger']},
+      {method: 'GET', path: '/users', type: 'endpoint', handlers: ['logger', 'list']},
+      {method: 'POST', path: '/users', type: 'endpoint', handlers: ['create']},
+      {method: 'GET', path: '/users/:id', type: 'endpoint', handlers: ['show']},
+    ]);
+  });
+
+  it('Should report the matcher selected by SmartRouter', () => {
+    const router = createRouter();
+    router.router.match('GET', '/users');
+    expect(router.inspect().matcher).toBe('RegExpRouter');
+  });
+
+  it('Should print a tree', () => {
+    const print = vi.fn();
+    const output = createRouter().printRoutes('tree', print);
+    expect(print).toHaveBeenCalledWith(output);
+    expect(output).toBe(
+      [
+        'SmartRouter (matcher not built yet)',
+        '├─ /*',
+        '│  └─ USE  logger',
+        '├─ /users',
+        '│  ├─ GET  logger, list',
+        '│  └─ POST create',
+        '└─ /users/:id',
+        '   └─ GET  show',
+      ].join('\n'),
+    );
+  });
+
+  it('Should list group middleware apart from the handlers', () => {
+    const router = new Router();
+    router.group('/admin', logger, r => r.get('/users', list).post('/users', create));
+    expect(router.inspect().routes).toEqual([
+      {method: 'GET', path: '/admin/users', type: 'endpoint', handlers: ['list'], middleware: ['logger']},
+      {method: 'POST', path: '/admin/users', type: 'endpoint', handlers: ['create'], middleware: ['logger']},
+    ]);
+    expect(router.printRoutes('tree', () => {})).toBe(
+      [
+        'SmartRouter (matcher not built yet)',
+        '└─ /admin/users',
+        '   ├─ GET  [logger], list',
+        '   └─ POST [logger], create',
+      ].join('\n'),
+    );
+  });
+
+  it('Should include route names', () => {
+    const router = new Router();
+    router.get('/users/:id', {name: 'users.show'}, show);
+    expect(router.inspect().routes[0]).toEqual({
+      method: 'GET',
+      path: '/users/:id',
+      type: 'endpoint',
+      handlers: ['show'],
+      name: 'users.show',
+    });
+  });
+
+  it('Should print JSON', () => {
+    const router = createRouter();
+    const output = router.printRoutes('json', () => {});
+    expect(JSON.parse(output)).toEqual(router.inspect());
+  });
+});
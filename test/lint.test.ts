@@ -0,0 +1,101 @@
+import {Router, RouteLintError} from '../src';
+import {describe, expect, it} from 'vitest';
+
+const ok = () => 'ok';
+
+// Tests for route table linting
+describe('Router lint', () => {
+  it('Should report nothing for a clean table', () => {
+    const router = new Router();
+    router.use(ok);
+    router.get('/users', ok, ok);
+    router.post('/users', ok);
+    router.get('/users/:id', ok);
+    router.put('/users/:id', ok);
+    expect(router.lint()).toEqual([]);
+  });
+
+  it('Should report duplicate routes', () => {
+    const router = new Router();
+    router.get('/users', ok);
+    router.get('/users', ok);
+    router.get('/users', ok);
+    expect(router.lint()).toEqual([
+      {type: 'duplicate', method: 'GET', path: '/users', message: 'GET /users is registered more than once'},
+    ]);
+  });
+
+  it('Should report shadowed routes', () => {
+    const router = new Router({strategy: 'trie'});
+    router.get('/users/:id', ok);
+    router.get('/users/me', ok);
+    router.all('/files/*', ok);
+    router.get('/files/a/b', ok);
+    router.get('/posts/:id{[0-9]+}', ok);
+    router.get('/posts/latest', ok); // not matched by the constraint
+    router.get('/posts/42', ok);
+
+    expect(router.lint().map(i => [i.type, i.path, i.conflictsWith])).toEqual([
+      ['shadowed', '/users/me', '/users/:id'],
+      ['shadowed', '/files/a/b', '/files/*'],
+      ['shadowed', '/posts/42', '/posts/:id{[0-9]+}'],
+    ]);
+  });
+
+  it('Should report conflicting param names', () => {
+    const router = new Router();
+    router.get('/users/:id', ok);
+    router.get('/users/:userId/posts', ok);
+    router.get('/users/:id/likes', ok);
+
+    expect(router.lint()).toEqual([
+      {
+        type: 'param-conflict',
+        method: 'GET',
+        path: '/users/:userId/posts',
+        conflictsWith: '/users/:id',
+        message: 'Param :userId in /users/:userId/posts conflicts with :id in /users/:id',
+      },
+    ]);
+  });
+
+  it('Should report paths forcing a matcher fallback', () => {
+    const router = new Router();
+    router.get('/:user/entries', ok);
+    router.get('/entry/:name', ok);
+
+    expect(router.lint().filter(i => i.type === 'fallback')).toEqual([
+      {
+        type: 'fallback',
+        method: 'GET',
+        path: '/:user/entries',
+        message: '/:user/entries is not supported by RegExpRouter, SmartRouter falls back to TrieRouter',
+      },
+    ]);
+    expect(new Router({strategy: 'trie'}).get('/:user/entries', ok).get('/entry/:name', ok).lint()).toEqual([]);
+  });
+
+  it('Should lint mounted routes', () => {
+    const users = new Router();
+    users.get('/:id', ok);
+    users.get('/me', ok);
+
+    const router = new Router();
+    router.route('/users', users);
+    expect(router.lint().map(i => i.path)).toContain('/users/me');
+  });
+
+  it('Should throw in strict mode', () => {
+    const router = new Router();
+    router.get('/users', ok);
+    router.get('/users', ok);
+
+    expect(() => router.lint({strict: true})).toThrow(RouteLintError);
+    try {
+      router.lint({strict: true});
+    } catch (e) {
+      expect((e as RouteLintError).issues).toHaveLength(1);
+      expect((e as RouteLintError).message).toContain('- GET /users is registered more than once');
+    }
+  });
+});
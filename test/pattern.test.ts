@@ -0,0 +1,65 @@
+import {describe, it, expect} from 'vitest';
+import {PatternRouter} from '../src/router/pattern';
+import {RegExpRouter} from '../src/router/reg-exp';
+import {TrieRouter} from '../src/router/trie-tree';
+import {UnsupportedPathError} from '../src/router/errors';
+
+// Tests for the PatternRouter class
+describe('PatternRouter', () => {
+  describe('String paths', () => {
+    const router = new PatternRouter<string>();
+    router.add('ALL', '/api/*', 'middleware');
+    router.add('GET', '/api/users/:id{[0-9]+}', 'get user');
+    router.add('GET', '/api/posts/:slug/:page?', 'get post');
+
+    it('GET /api/users/1 should match in registration order with params', () => {
+      const [res] = router.match('GET', '/api/users/1');
+      expect(res).toEqual([
+        ['middleware', {}],
+        ['get user', {id: '1'}],
+      ]);
+    });
+
+    it('GET /api/users/abc should only match the middleware', () => {
+      expect(router.match('GET', '/api/users/abc')[0]).toEqual([['middleware', {}]]);
+    });
+
+    it('GET /api/posts/hello should match without the optional param', () => {
+      expect(router.match('GET', '/api/posts/hello')[0][1]).toEqual(['get post', {slug: 'hello'}]);
+      expect(router.match('GET', '/api/posts/hello/2')[0][1]).toEqual(['get post', {slug: 'hello', page: '2'}]);
+    });
+  });
+
+  describe('RegExp paths', () => {
+    const router = new PatternRouter<string>();
+    router.add('GET', /^\/legacy\/(\d+)(?:\/(\w+))?$/, 'legacy');
+    router.add('GET', /^\/archive\/(?<year>\d{4})\/(\d{2})$/g, 'archive');
+
+    it('should map capture groups to numeric params', () => {
+      expect(router.match('GET', '/legacy/42/edit')[0]).toEqual([['legacy', {0: '42', 1: 'edit'}]]);
+      expect(router.match('GET', '/legacy/42')[0]).toEqual([['legacy', {0: '42'}]]);
+    });
+
+    it('should map named groups to named params, also for global RegExps', () => {
+      const expected = [['archive', {0: '2024', 1: '05', year: '2024'}]];
+      expect(router.match('GET', '/archive/2024/05')[0]).toEqual(expected);
+      expect(router.match('GET', '/archive/2024/05')[0]).toEqual(expected);
+    });
+
+    it('should remove routes by handler', () => {
+      router.remove('GET', /^\/legacy\/(\d+)(?:\/(\w+))?$/, 'legacy');
+      expect(router.match('GET', '/legacy/42')[0]).toEqual([]);
+    });
+  });
+
+  it('should ignore case when not case-sensitive', () => {
+    const router = new PatternRouter<string>({caseSensitive: false});
+    router.add('GET', '/Users/:id', 'user');
+    expect(router.match('GET', '/users/1')[0]).toEqual([['user', {id: '1'}]]);
+  });
+
+  it('RegExp paths should throw UnsupportedPathError in the other matchers', () => {
+    expect(() => new RegExpRouter<string>().add('GET', /^\/a$/, 'a')).toThrowError(UnsupportedPathError);
+    expect(() => new TrieRouter<string>().add('GET', /^\/a$/, 'a')).toThrowError(UnsupportedPathError);
+  });
+});
@@ -122,4 +122,27 @@ describe('RegExpRouter', () => {
       });
     });
   });
+
+  // Routes can change after the matchers have been built
+  describe('Runtime changes', () => {
+    it('Should match routes added after the first match', () => {
+      const router = new RegExpRouter<string>();
+      router.add('GET', '/a', 'a');
+      expect(router.match('GET', '/b')[0]).toEqual([]);
+
+      router.add('GET', '/b/:id', 'b');
+      expect(router.match('GET', '/b/1')[0]).toEqual([['b', {id: 1}]]);
+      expect(router.match('GET', '/a')[0]).toEqual([['a', {}]]);
+    });
+
+    it('Should not match removed handlers', () => {
+      const router = new RegExpRouter<string>();
+      router.add('GET', '/posts/:id', 'get post');
+      router.add('GET', '/posts/:id', 'log post');
+      router.match('GET', '/posts/1');
+
+      router.remove('GET', '/posts/:id', 'get post');
+      expect(router.match('GET', '/posts/1')[0].map(([h]) => h)).toEqual(['log post']);
+    });
+  });
 });
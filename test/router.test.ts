@@ -1,7 +1,18 @@
 import express from 'express';
 import request from 'supertest';
-import {Router, handler, ApiRes} from '../src';
-import {describe, expect, it, beforeEach, vi} from 'vitest';
+import {SmartRouter} from '../src/router/smart';
+import {TrieRouter} from '../src/router/trie-tree';
+import {RegExpRouter} from '../src/router/reg-exp';
+import {UnsupportedPathError} from '../src/router/errors';
+import type {PathParams, RouterRoute} from '../src/types';
+import {describe, expect, expectTypeOf, it, beforeEach, vi} from 'vitest';
+import {Router, handler, ApiRes, errorHandler, HttpError, HttpStatus} from '../src';
+
+const createApp = (router: Router) => {
+  const app = express();
+  app.use(router.dispatch);
+  return app;
+};
 
 describe('Router', () => {
   let app: express.Express;
@@ -91,3 +102,1417 @@ describe('Router', () => {
     expect(res.text).toBe('sub');
   });
 });
+
+describe.each([
+  ['RegExpRouter', () => new RegExpRouter<any>()],
+  ['TrieRouter', () => new TrieRouter<any>()],
+])('Router method handling (%s)', (_, createMatcher) => {
+  let app: express.Express;
+  let router: Router;
+
+  beforeEach(() => {
+    app = express();
+    router = new Router();
+    router.router = new SmartRouter({routers: [createMatcher()]});
+  });
+
+  it('should respond 405 with an Allow header for unregistered methods', async () => {
+    router.get('/users', () => 'list');
+    router.post('/users', () => 'create');
+    app.use(router.dispatch);
+    app.use(errorHandler(false, () => {}));
+
+    const res = await request(app).delete('/users');
+    expect(res.status).toBe(405);
+    expect(res.headers.allow).toBe('GET, HEAD, POST, OPTIONS');
+    expect(res.body.error).toBe('MethodNotAllowedError');
+  });
+
+  it('should fall through to next() when the path is unknown', async () => {
+    router.get('/users', () => 'list');
+    app.use(router.dispatch);
+
+    const res = await request(app).post('/posts');
+    expect(res.status).toBe(404);
+  });
+
+  it('should not count use() middleware as an endpoint', async () => {
+    const middleware = vi.fn((req, res, next) => next());
+    router.use(middleware);
+    router.get('/users', () => 'list');
+    app.use(router.dispatch);
+    app.use(errorHandler(false, () => {}));
+
+    const res = await request(app).put('/users');
+    expect(res.status).toBe(405);
+    expect(res.headers.allow).toBe('GET, HEAD, OPTIONS');
+    expect(middleware).toHaveBeenCalled();
+  });
+
+  it('should accept any method when all() matches', async () => {
+    router.get('/users', () => 'list');
+    router.all('/users', () => 'any');
+    app.use(router.dispatch);
+
+    const res = await request(app).patch('/users');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('any');
+  });
+
+  it('should answer OPTIONS automatically', async () => {
+    router.get('/users/:id', () => 'show');
+    router.delete('/users/:id', () => 'destroy');
+    app.use(router.dispatch);
+
+    const res = await request(app).options('/users/1');
+    expect(res.status).toBe(204);
+    expect(res.headers.allow).toBe('GET, HEAD, DELETE, OPTIONS');
+  });
+
+  it('should prefer an explicit OPTIONS handler', async () => {
+    router.get('/users', () => 'list');
+    router.options('/users', (req, res) => res.status(200).send('custom'));
+    app.use(router.dispatch);
+
+    const res = await request(app).options('/users');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('custom');
+  });
+});
+
+describe('Router URL generation', () => {
+  const createRouter = () => {
+    const users = new Router();
+    users.get('/:id{[0-9]+}', {name: 'users.show'}, () => 'show');
+    users.get('/:id/posts/:slug?', {name: 'users.posts'}, () => 'posts');
+
+    const router = new Router();
+    router.get('/', {name: 'home'}, () => 'home');
+    router.route('/api/users', users);
+    return router;
+  };
+
+  it('should build URLs for named routes under their mount prefix', () => {
+    const router = createRouter();
+    expect(router.url('home')).toBe('/');
+    expect(router.url('users.show', {id: 42})).toBe('/api/users/42');
+    expect(router.url('users.posts', {id: 1})).toBe('/api/users/1/posts');
+    expect(router.url('users.posts', {id: 1, slug: 'hello world'})).toBe('/api/users/1/posts/hello%20world');
+  });
+
+  it('should append query strings', () => {
+    const url = createRouter().url('users.show', {id: 7}, {query: {tab: 'posts', tag: ['a', 'b'], skip: undefined}});
+    expect(url).toBe('/api/users/7?tab=posts&tag=a&tag=b');
+  });
+
+  it('should throw on unknown names, missing params and constraint violations', () => {
+    const router = createRouter();
+    expect(() => router.url('missing')).toThrow('Unknown route name: missing');
+    expect(() => router.url('users.show')).toThrow('Missing value for parameter "id"');
+    expect(() => router.url('users.show', {id: 'abc'})).toThrow('does not match {[0-9]+}');
+  });
+
+  it('should reject reusing a name for another path', () => {
+    const router = new Router();
+    router.get('/users', {name: 'users'}, () => 'list');
+    router.post('/users', {name: 'users'}, () => 'create');
+    expect(() => router.get('/people', {name: 'users'}, () => 'people')).toThrow('already used by /users');
+  });
+
+  it('should still dispatch named routes', async () => {
+    const app = express();
+    app.use(createRouter().dispatch);
+
+    const res = await request(app).get('/api/users/42');
+    expect(res.status).toBe(200);
+    expect(res.text).toBe('show');
+  });
+});
+
+describe('Router param types', () => {
+  it('should infer params from the path literal', () => {
+    expectTypeOf<PathParams<'/users/:userId/posts/:postId?'>>().toEqualTypeOf<{userId: string; postId?: string}>();
+    expectTypeOf<PathParams<'/files/:name{[a-z]+\\.png}'>>().toEqualTypeOf<{name: string}>();
+    expectTypeOf<PathParams<'/wild/*'>>().toEqualTypeOf<{0: string}>();
+    expectTypeOf<PathParams<string>>().toEqualTypeOf<Record<string, string>>();
+  });
+
+  it('should type req.params and req.param() in handlers', () => {
+    const router = new Router();
+    router.get('/users/:userId/posts/:postId?', req => {
+      expectTypeOf(req.params).toEqualTypeOf<{userId: string; postId?: string}>();
+      expectTypeOf(req.param('userId')).toEqualTypeOf<string>();
+      expectTypeOf(req.param('postId')).toEqualTypeOf<string | undefined>();
+    });
+    router.get('/users/:id', {name: 'users.show'}, req => {
+      expectTypeOf(req.params).toEqualTypeOf<{id: string}>();
+    });
+  });
+
+  it('should merge the params of the mount point', async () => {
+    const posts = new Router<PathParams<'/users/:userId'>>();
+    posts.get('/posts/:postId', req => {
+      expectTypeOf(req.params).toEqualTypeOf<{userId: string; postId: string}>();
+      return req.params;
+    });
+
+    const router = new Router();
+    router.route('/users/:userId', posts);
+
+    const app = express();
+    app.use(router.dispatch);
+    const res = await request(app).get('/users/1/posts/2');
+    expect(res.body).toEqual({userId: '1', postId: '2'});
+  });
+
+  it('should accept untyped Express handlers', () => {
+    const router = new Router();
+    const middleware: express.RequestHandler = (req, res, next) => next();
+    router.get(
+      '/users/:id',
+      middleware,
+      handler(req => req.params.id),
+    );
+  });
+});
+
+describe('Router groups', () => {
+  let app: express.Express;
+  const auth = vi.fn((req, res, next) => {
+    if (req.headers.authorization !== 'secret') return res.status(401).send('denied');
+    next();
+  });
+
+  beforeEach(() => {
+    app = express();
+    auth.mockClear();
+  });
+
+  it('should apply group middleware only to routes declared in the callback', async () => {
+    const router = new Router();
+    router.group('/admin', auth, r => {
+      r.get('/stats', () => 'stats');
+      r.post('/ban', () => 'banned');
+    });
+    router.get('/admin/public', () => 'public');
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/admin/stats')).status).toBe(401);
+    expect((await request(app).post('/admin/ban').set('authorization', 'secret')).text).toBe('banned');
+    expect((await request(app).get('/admin/public')).text).toBe('public');
+    expect(auth).toHaveBeenCalledTimes(2);
+  });
+
+  it('should nest groups and merge prefixes and middleware', async () => {
+    const trace = vi.fn((req, res, next) => next());
+    const router = new Router();
+    router.group('/admin', auth, r => {
+      r.group('/users/:id', trace, r => {
+        r.get('/', req => ({id: req.params.id}));
+      });
+    });
+    app.use(router.dispatch);
+
+    const res = await request(app).get('/admin/users/7').set('authorization', 'secret');
+    expect(res.body).toEqual({id: '7'});
+    expect(auth).toHaveBeenCalledTimes(1);
+    expect(trace).toHaveBeenCalledTimes(1);
+  });
+
+  it('should apply group middleware to chained methods of a route', async () => {
+    const router = new Router();
+    router.group('/admin', auth, r => {
+      // Path-less calls continue the previous registration (untyped)
+      const route: any = r.get('/stats', () => 'get');
+      route.post(() => 'post').post(() => 'unreached');
+    });
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/admin/stats')).status).toBe(401);
+    expect((await request(app).post('/admin/stats')).status).toBe(401);
+    expect((await request(app).post('/admin/stats').set('authorization', 'secret')).text).toBe('post');
+    expect(auth).toHaveBeenCalledTimes(3);
+  });
+
+  it('should scope pathless use() to the group', async () => {
+    const router = new Router();
+    router.group('/admin', r => {
+      r.use(auth);
+      r.get('/stats', () => 'stats');
+    });
+    router.get('/home', () => 'home');
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/admin/stats')).status).toBe(401);
+    expect((await request(app).get('/home')).text).toBe('home');
+  });
+
+  it('should apply group middleware to mounted routers', async () => {
+    const users = new Router();
+    users.get('/list', () => 'users');
+
+    const router = new Router();
+    router.group('/admin', auth, r => r.route('/users', users));
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/admin/users/list')).status).toBe(401);
+    expect((await request(app).get('/admin/users/list').set('authorization', 'secret')).text).toBe('users');
+  });
+
+  it('should record the merged basePath in the route table', () => {
+    const stats = function stats() {};
+    const router = new Router();
+    router.group('/admin', r => r.group('/reports', r => r.get('/daily', stats)));
+
+    expect(router.routes).toEqual([
+      {basePath: '/admin/reports', path: '/admin/reports/daily', method: 'GET', handler: stats},
+    ]);
+  });
+});
+
+describe('Router error and not-found handlers', () => {
+  const createApp = () => {
+    const api = new Router();
+    api.get('/users/:id', req => {
+      throw new HttpError(HttpStatus.NOT_FOUND, {message: `User ${req.params.id} not found`});
+    });
+    api.get('/crash', async () => {
+      throw new Error('boom');
+    });
+    api.onError((err, req, res, next) => {
+      if (HttpError.isHttpError(err)) return err.toJson(res);
+      next(err);
+    });
+    api.notFound(req => ({missing: req.path}));
+
+    const web = new Router();
+    web.get('/page', () => {
+      throw new Error('broken page');
+    });
+    web.onError(err => `<h1>${err.message}</h1>`);
+
+    const router = new Router();
+    router.route('/api', api).route('/web', web);
+    router.get('/root', () => {
+      throw new Error('root');
+    });
+
+    const app = express();
+    app.use(router.dispatch);
+    app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).send(`express: ${err.message}`);
+    });
+    return app;
+  };
+
+  it('should use the error handler of the mounted router owning the path', async () => {
+    const app = createApp();
+
+    const json = await request(app).get('/api/users/9');
+    expect(json.status).toBe(404);
+    expect(json.body.message).toBe('User 9 not found');
+
+    const html = await request(app).get('/web/page');
+    expect(html.text).toBe('<h1>broken page</h1>');
+  });
+
+  it('should fall through to next(err) when unhandled', async () => {
+    const app = createApp();
+
+    expect((await request(app).get('/api/crash')).text).toBe('express: boom');
+    expect((await request(app).get('/root')).text).toBe('express: root');
+  });
+
+  it('should route router-generated 405 errors through onError', async () => {
+    const res = await request(createApp()).delete('/api/users/9');
+    expect(res.status).toBe(405);
+    expect(res.body.error).toBe('MethodNotAllowedError');
+  });
+
+  it('should run the scoped not-found handler', async () => {
+    const app = createApp();
+
+    const res = await request(app).get('/api/nothing');
+    expect(res.body).toEqual({missing: '/api/nothing'});
+    expect((await request(app).get('/web/nothing')).status).toBe(404);
+  });
+
+  it('should delegate from inner to outer error handlers', async () => {
+    const inner = new Router();
+    inner.get('/fail', () => {
+      throw new Error('inner');
+    });
+    inner.onError((err, req, res, next) => next(err));
+
+    const router = new Router();
+    router.route('/v1/:tenant', inner);
+    router.onError(err => `outer: ${err.message}`);
+
+    const app = express();
+    app.use(router.dispatch);
+    expect((await request(app).get('/v1/acme/fail')).text).toBe('outer: inner');
+  });
+});
+
+describe('Router runtime changes', () => {
+  it('should serve routes added after the first request', async () => {
+    const router = new Router();
+    router.get('/ping', () => 'pong');
+    const app = createApp(router);
+
+    expect((await request(app).get('/ping')).text).toBe('pong');
+    expect((await request(app).get('/late/1')).status).toBe(404);
+
+    router.get('/late/:id', req => `late ${req.params.id}`);
+    expect((await request(app).get('/late/1')).text).toBe('late 1');
+    expect((await request(app).get('/ping')).text).toBe('pong');
+  });
+
+  it('should remove and replace routes', async () => {
+    const router = new Router();
+    router.get('/ping', () => 'pong');
+    router.get('/beta', {name: 'beta'}, () => 'v1');
+    const app = createApp(router);
+
+    expect((await request(app).get('/beta')).text).toBe('v1');
+
+    router.remove('GET', '/beta');
+    expect((await request(app).get('/beta')).status).toBe(404);
+    expect(router.routes.map(r => r.path)).toEqual(['/ping']);
+    expect(() => router.url('beta')).toThrow('Unknown route name: beta');
+
+    router.get('/beta', () => 'v2');
+    expect((await request(app).get('/beta')).text).toBe('v2');
+  });
+
+  it('should update allowed methods after removal', async () => {
+    const router = new Router();
+    router.get('/item', () => 'get');
+    router.post('/item', () => 'post');
+    const app = createApp(router);
+
+    expect((await request(app).put('/item')).headers.allow).toBe('GET, HEAD, POST, OPTIONS');
+
+    router.remove('post', '/item');
+    expect((await request(app).post('/item')).status).toBe(405);
+    expect((await request(app).put('/item')).headers.allow).toBe('GET, HEAD, OPTIONS');
+  });
+
+  it('should fall back to another matcher when a late route is unsupported', async () => {
+    const router = new Router();
+    router.get('/users/:id', req => `user ${req.params.id}`);
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/1')).text).toBe('user 1');
+    expect(router.router.activeRouter.name).toBe('RegExpRouter');
+
+    router.get('/users/me', () => 'me');
+    expect((await request(app).get('/users/me')).text).toBe('user me');
+    expect(router.router.activeRouter.name).toBe('TrieRouter');
+    expect((await request(app).get('/users/2')).text).toBe('user 2');
+  });
+
+  it('should remove routes from the trie matcher', async () => {
+    const router = new Router();
+    router.router = new SmartRouter({routers: [new TrieRouter()]});
+    router.get('/files/:name?', () => 'file');
+    const app = createApp(router);
+
+    expect((await request(app).get('/files/a')).text).toBe('file');
+
+    router.remove('GET', '/files/:name?');
+    expect((await request(app).get('/files')).status).toBe(404);
+    expect((await request(app).get('/files/a')).status).toBe(404);
+  });
+});
+
+describe.each(['regexp', 'trie', 'pattern', 'smart'] as const)('Router options (%s strategy)', strategy => {
+  it('should use the matcher of the strategy', async () => {
+    const router = new Router({strategy});
+    router.get('/users/:id', req => req.params.id);
+    expect((await request(createApp(router)).get('/users/1')).text).toBe('1');
+    const names = {regexp: 'RegExpRouter', trie: 'TrieRouter', pattern: 'PatternRouter', smart: 'RegExpRouter'};
+    expect(router.router.activeRouter.name).toBe(names[strategy]);
+  });
+
+  it('should be case-sensitive and strict by default', async () => {
+    const router = new Router({strategy});
+    router.get('/users/:id', req => req.params.id);
+    const app = createApp(router);
+
+    expect((await request(app).get('/USERS/1')).status).toBe(404);
+    expect((await request(app).get('/users/1/')).status).toBe(404);
+  });
+
+  it('should ignore case when caseSensitive is false', async () => {
+    const router = new Router({strategy, caseSensitive: false});
+    router.get('/users/:id{[a-z]+}', req => req.params.id);
+    router.get('/About', () => 'about');
+    const app = createApp(router);
+
+    expect((await request(app).get('/USERS/Ann')).text).toBe('Ann');
+    expect((await request(app).get('/about')).text).toBe('about');
+  });
+
+  it('should ignore the trailing slash when strict is false', async () => {
+    const router = new Router({strategy, strict: false});
+    router.get('/users', () => 'users');
+    router.get('/posts/', () => 'posts');
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/')).text).toBe('users');
+    expect((await request(app).get('/posts')).text).toBe('posts');
+    expect(router.routes.map(r => r.path)).toEqual(['/users', '/posts']);
+  });
+
+  it('should redirect to the canonical path with redirectTrailingSlash', async () => {
+    const router = new Router({strategy, strict: false, redirectTrailingSlash: true});
+    router.get('/users', () => 'users');
+    router.post('/users', () => 'created');
+    const app = createApp(router);
+
+    const get = await request(app).get('/users/?page=2');
+    expect(get.status).toBe(301);
+    expect(get.headers.location).toBe('/users?page=2');
+    expect((await request(app).post('/users/')).status).toBe(308);
+    expect((await request(app).get('/users')).text).toBe('users');
+    expect((await request(app).get('/missing/')).status).toBe(404);
+  });
+
+  it('should redirect to the registered variant in strict mode', async () => {
+    const router = new Router({strategy, redirectTrailingSlash: true});
+    router.get('/docs/', () => 'docs');
+
+    const res = await request(createApp(router)).get('/docs');
+    expect(res.status).toBe(301);
+    expect(res.headers.location).toBe('/docs/');
+  });
+
+  it('should only keep parent params with mergeParams', async () => {
+    const create = (mergeParams: boolean) => {
+      const router = new Router({strategy, mergeParams});
+      router.get('/posts/:postId', req => req.params);
+      const app = express();
+      app.use('/users/:userId', router.dispatch);
+      return app;
+    };
+
+    expect((await request(create(true)).get('/users/1/posts/2')).body).toEqual({userId: '1', postId: '2'});
+    expect((await request(create(false)).get('/users/1/posts/2')).body).toEqual({postId: '2'});
+  });
+});
+
+describe('Router regexp strategy', () => {
+  it('should reject the routes RegExpRouter cannot match along with the others', async () => {
+    const router = new Router({strategy: 'regexp'});
+    router.get('/users/:id', req => req.params.id);
+    expect(() => router.get('/users/me', () => 'me')).toThrow(
+      'Path is not supported by the "regexp" strategy: /users/me (use "trie" or "smart")',
+    );
+    router.post('/users/me', () => 'me');
+
+    expect(router.routes.map(r => `${r.method} ${r.path}`)).toEqual(['GET /users/:id', 'POST /users/me']);
+    expect((await request(createApp(router)).get('/users/1')).text).toBe('1');
+    expect((await request(createApp(router)).post('/users/me')).text).toBe('me');
+  });
+
+  it('should name the path RegExpRouter cannot match when building', () => {
+    const router = new Router({strategy: 'smart'});
+    router.get('/users/:id', () => 'user');
+    router.get('/users/me', () => 'me');
+    const matcher = new SmartRouter({routers: [new RegExpRouter()]});
+    router.routes.forEach(r => matcher.add(r.method, r.path, r));
+
+    expect(() => matcher.match('GET', '/users/1')).toThrow(new UnsupportedPathError('/users/me'));
+  });
+});
+
+describe('Router param callbacks', () => {
+  const users: Record<string, {name: string}> = {'1': {name: 'Ann'}, 'a b': {name: 'Bob'}};
+
+  const loadUser = vi.fn((req: any, res: express.Response, next: express.NextFunction, id: string) => {
+    req.user = users[id];
+    if (!req.user) throw new HttpError(HttpStatus.NOT_FOUND, {message: `User ${id} not found`});
+    next();
+  });
+
+  beforeEach(() => {
+    loadUser.mockClear();
+  });
+
+  it('should load the param before the handler, once per request', async () => {
+    const router = new Router();
+    router.param('userId', loadUser);
+    router.use('/users/:userId/*', (req, res, next) => next());
+    router.get('/users/:userId/profile', (req: any) => req.user);
+    router.get('/health', () => 'ok');
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/1/profile')).body).toEqual({name: 'Ann'});
+    expect(loadUser).toHaveBeenCalledTimes(1);
+
+    await request(app).get('/health');
+    expect(loadUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the decoded value', async () => {
+    const router = new Router();
+    router.param('userId', loadUser);
+    router.get('/users/:userId', (req: any) => req.user);
+
+    expect((await request(createApp(router)).get('/users/a%20b')).body).toEqual({name: 'Bob'});
+    expect(loadUser.mock.calls[0][3]).toBe('a b');
+  });
+
+  it('should short-circuit with an HttpError', async () => {
+    const router = new Router();
+    const show = vi.fn();
+    router.param('userId', loadUser);
+    router.get('/users/:userId{[0-9]+}', show);
+    router.onError((err: HttpError, req, res) => err.toJson(res));
+
+    const res = await request(createApp(router)).get('/users/9');
+    expect(res.status).toBe(404);
+    expect(res.body.message).toBe('User 9 not found');
+    expect(show).not.toHaveBeenCalled();
+  });
+
+  it('should support async callbacks resolving without next()', async () => {
+    const router = new Router();
+    router.param('id', async (req: any, res, next, id) => {
+      req.item = await Promise.resolve(`item ${id}`);
+    });
+    router.get('/items/:id', (req: any) => req.item);
+
+    expect((await request(createApp(router)).get('/items/7')).text).toBe('item 7');
+  });
+
+  it('should keep callbacks of mounted routers, outermost first', async () => {
+    const calls: string[] = [];
+    const api = new Router();
+    api.param('userId', (req, res, next, id) => {
+      calls.push(`api ${id}`);
+      next();
+    });
+    api.get('/users/:userId', req => req.params);
+
+    const router = new Router();
+    router.param('userId', (req, res, next, id) => {
+      calls.push(`root ${id}`);
+      next();
+    });
+    router.route('/api', api);
+
+    expect((await request(createApp(router)).get('/api/users/3')).body).toEqual({userId: '3'});
+    expect(calls).toEqual(['root 3', 'api 3']);
+  });
+
+  it('should only apply callbacks to the routes of their router', async () => {
+    const calls: string[] = [];
+    const users = new Router();
+    users.param('id', (req, res, next, id) => {
+      calls.push(`child ${id}`);
+      next();
+    });
+    users.get('/:id/posts', () => 'posts');
+
+    const router = new Router();
+    router.get('/users/:id', (req, res, next) => (req.params.id === 'me' ? next() : 'user'));
+    router.route('/users', users);
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/7')).text).toBe('user');
+    expect(calls).toEqual([]);
+    expect((await request(app).get('/users/7/posts')).text).toBe('posts');
+    expect(calls).toEqual(['child 7']);
+  });
+});
+
+describe('Router match cache', () => {
+  it('should be disabled by default', () => {
+    expect(new Router().router.cacheStats).toBeNull();
+  });
+
+  it('should count hits and misses', async () => {
+    const router = new Router({cacheSize: 10});
+    router.get('/users/:id', req => req.params.id);
+    const app = createApp(router);
+
+    for (const id of [1, 2, 1, 1]) {
+      expect((await request(app).get(`/users/${id}`)).text).toBe(String(id));
+    }
+    expect(router.router.cacheStats).toEqual({hits: 2, misses: 2, size: 2, capacity: 10});
+  });
+
+  it('should evict the least recently used result', async () => {
+    const router = new Router({cacheSize: 2});
+    router.get('/users/:id', req => req.params.id);
+    const app = createApp(router);
+
+    for (const id of [1, 2, 1, 3, 1, 2]) await request(app).get(`/users/${id}`);
+    // 1 is kept as it is used most often, 2 was evicted by 3
+    expect(router.router.cacheStats).toMatchObject({hits: 2, size: 2});
+  });
+
+  it('should be cleared when routes change', async () => {
+    const router = new Router({cacheSize: 10});
+    router.get('/users/:id', () => 'v1');
+    const app = createApp(router);
+
+    await request(app).get('/users/1');
+    expect((await request(app).get('/users/1')).text).toBe('v1');
+
+    router.remove('GET', '/users/:id').get('/users/:id', () => 'v2');
+    expect(router.router.cacheStats?.size).toBe(0);
+    expect((await request(app).get('/users/1')).text).toBe('v2');
+  });
+});
+
+describe('Router HEAD and extension methods', () => {
+  it('should run HEAD routes and fall back to GET without a body', async () => {
+    const router = new Router();
+    const get = vi.fn(() => 'body');
+    router.get('/doc', get);
+    router.get('/file', get);
+    router.head('/file', (req, res) => {
+      res.setHeader('x-head', 'yes');
+      res.end();
+    });
+    const app = createApp(router);
+
+    const fallback = await request(app).head('/doc');
+    expect(fallback.status).toBe(200);
+    expect(fallback.text).toBeUndefined();
+    expect(fallback.headers['content-length']).toBe('4');
+
+    const own = await request(app).head('/file');
+    expect(own.headers['x-head']).toBe('yes');
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should register arbitrary methods', async () => {
+    const router = new Router();
+    router.method('PROPFIND', '/dav/:file', req => `props of ${req.params.file}`);
+    router.method('purge', '/cache/*', () => 'purged');
+    router.method('QUERY', '/search', () => 'results');
+    const app = createApp(router);
+
+    expect((await request(app).propfind('/dav/a.txt')).text).toBe('props of a.txt');
+    expect((await request(app).purge('/cache/x')).text).toBe('purged');
+    expect((await request(app).get('/cache/x')).status).toBe(405);
+    expect(router.inspect().routes.map(r => r.method)).toEqual(['PROPFIND', 'PURGE', 'QUERY']);
+  });
+
+  it('should list extension methods in 405 and OPTIONS responses', async () => {
+    const router = new Router();
+    router.get('/dav', () => 'dav');
+    router.method('PROPFIND', '/dav', () => 'props');
+    const app = createApp(router);
+
+    const res = await request(app).options('/dav');
+    expect(res.status).toBe(204);
+    expect(res.headers.allow).toBe('GET, HEAD, PROPFIND, OPTIONS');
+  });
+
+  it('should reject invalid method names', () => {
+    expect(() => new Router().method('BAD METHOD', '/', () => 'x')).toThrow('Invalid HTTP method: BAD METHOD');
+  });
+});
+
+describe('Router param converters', () => {
+  it('should match and parse built-in converters', async () => {
+    const router = new Router();
+    router.get('/users/:id<int>', req => {
+      expectTypeOf(req.params).toEqualTypeOf<{id: number}>();
+      return {id: req.params.id, type: typeof req.param('id')};
+    });
+    router.get('/posts/:slug<slug>', req => req.params);
+    router.get('/orders/:uid<uuid>', req => req.params);
+    router.get('/reports/:date<isodate>/:page<int>?', req => {
+      expectTypeOf(req.params).toEqualTypeOf<{date: Date; page?: number}>();
+      return {year: req.params.date.getUTCFullYear(), page: req.params.page ?? null};
+    });
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/42')).body).toEqual({id: 42, type: 'number'});
+    expect((await request(app).get('/users/abc')).status).toBe(404);
+    expect((await request(app).get('/posts/hello-world')).body).toEqual({slug: 'hello-world'});
+    expect((await request(app).get('/posts/Hello_World')).status).toBe(404);
+    const uid = '3f2b8c1e-4d5a-4b6c-8d7e-9f0a1b2c3d4e';
+    expect((await request(app).get(`/orders/${uid}`)).body).toEqual({uid});
+    expect((await request(app).get('/reports/2024-05-01')).body).toEqual({year: 2024, page: null});
+    expect((await request(app).get('/reports/2024-05-01/3')).body).toEqual({year: 2024, page: 3});
+    expect((await request(app).get('/reports/2024-02-29')).body).toEqual({year: 2024, page: null});
+    for (const date of ['2024-13-45', '2024-00-10', '2024-04-31', '2023-02-29', '1900-02-29']) {
+      expect((await request(app).get(`/reports/${date}`)).status).toBe(404);
+    }
+  });
+
+  it('should behave the same with both matchers', async () => {
+    for (const strategy of ['regexp', 'trie'] as const) {
+      const router = new Router({strategy});
+      router.get('/items/:id<int>/:tag<slug>', req => req.params);
+      router.get('/days/:day<isodate>/:n<int>?', req => ({day: req.params.day.toISOString()}));
+      const app = createApp(router);
+
+      expect((await request(app).get('/items/7/new')).body).toEqual({id: 7, tag: 'new'});
+      expect((await request(app).get('/items/x/new')).status).toBe(404);
+      expect((await request(app).get('/days/2000-02-29')).body).toEqual({day: '2000-02-29T00:00:00.000Z'});
+      expect((await request(app).get('/days/2024-13-45')).status).toBe(404);
+    }
+  });
+
+  it('should register custom converters', async () => {
+    Router.registerConverter('hex', {pattern: '[0-9a-f]+', parse: v => parseInt(v, 16)});
+    const router = new Router();
+    router.get('/colors/:rgb<hex>', {name: 'color'}, req => ({rgb: req.params.rgb}));
+    const app = createApp(router);
+
+    expect((await request(app).get('/colors/ff')).body).toEqual({rgb: 255});
+    expect((await request(app).get('/colors/zz')).status).toBe(404);
+    expect(router.url('color', {rgb: 'a0'})).toBe('/colors/a0');
+    expect(() => router.url('color', {rgb: 'zz'})).toThrow();
+    expect(router.inspect().routes[0].path).toBe('/colors/:rgb<hex>');
+  });
+
+  it.each(['regexp', 'trie', 'smart', 'pattern'] as const)(
+    'should match the whole segment against alternations (%s strategy)',
+    async strategy => {
+      Router.registerConverter('color', {pattern: 'red|blue', parse: String});
+      const router = new Router({strategy});
+      router.get('/c/:c<color>', req => req.params);
+      const app = createApp(router);
+
+      expect((await request(app).get('/c/red')).body).toEqual({c: 'red'});
+      expect((await request(app).get('/c/blue')).body).toEqual({c: 'blue'});
+      expect((await request(app).get('/c/redx')).status).toBe(404);
+      expect((await request(app).get('/c/xblue')).status).toBe(404);
+    },
+  );
+
+  it('should reject unknown converters and capturing groups', () => {
+    expect(() => new Router().get('/a/:id<nope>', () => 'x')).toThrow('Unknown param converter: <nope>');
+    expect(() => Router.registerConverter('bad', {pattern: '(a|b)', parse: String})).toThrow(/non-capturing/);
+    expect(() => Router.registerConverter('bad', {pattern: '(?<x>a|b)', parse: String})).toThrow(/non-capturing/);
+    expect(() => Router.registerConverter('ok', {pattern: '(?:a|b)(?!c)', parse: String})).not.toThrow();
+  });
+});
+
+describe.each(['regexp', 'trie', 'smart'] as const)('Router Express 5 path syntax (%s strategy)', strategy => {
+  it('should match named wildcards', async () => {
+    const router = new Router({strategy});
+    router.get('/files/*splat', req => {
+      expectTypeOf(req.params).toEqualTypeOf<{splat: string}>();
+      return req.params;
+    });
+    const app = createApp(router);
+
+    expect((await request(app).get('/files/a/b/c.txt')).body).toEqual({splat: 'a/b/c.txt'});
+    expect((await request(app).get('/files')).status).toBe(404);
+  });
+
+  it('should match braced optional groups', async () => {
+    const router = new Router({strategy});
+    router.get('/users{/:id}', {name: 'users'}, req => req.params);
+    router.get('/posts{/:year{/:month}}', req => req.params);
+    const app = createApp(router);
+
+    expect((await request(app).get('/users')).body).toEqual({});
+    expect((await request(app).get('/users/7')).body).toEqual({id: '7'});
+    expect((await request(app).get('/posts/2024/05')).body).toEqual({year: '2024', month: '05'});
+    expect((await request(app).get('/posts/2024')).body).toEqual({year: '2024'});
+    expect(router.url('users')).toBe('/users');
+    expect(router.url('users', {id: 7})).toBe('/users/7');
+  });
+});
+
+// Embedded params conflict with static text in `RegExpRouter`, so `SmartRouter` falls back to the trie
+describe.each(['regexp', 'trie', 'smart'] as const)('Router Express 5 embedded params (%s strategy)', strategy => {
+  it('should match params embedded in a segment', async () => {
+    const router = new Router({strategy});
+    router.get('/files/:name.:ext', {name: 'file'}, req => ({...req.params, ext: req.param('ext')}));
+    const app = createApp(router);
+
+    expect((await request(app).get('/files/archive.tar.gz')).body).toEqual({name: 'archive', ext: 'tar.gz'});
+    expect((await request(app).get('/files/readme')).status).toBe(404);
+    expect(router.url('file', {name: 'a b', ext: 'txt'})).toBe('/files/a%20b.txt');
+  });
+
+  // RegExpRouter cannot mix a static segment and an embedded param at the same position
+  it.skipIf(strategy === 'regexp')('should match optional groups with embedded params', async () => {
+    const router = new Router({strategy});
+    router.get('/docs/readme{.:format}', req => req.params);
+    const app = createApp(router);
+
+    expect((await request(app).get('/docs/readme')).body).toEqual({});
+    expect((await request(app).get('/docs/readme.md')).body).toEqual({format: 'md'});
+  });
+
+  it.runIf(strategy === 'regexp')('should reject optional groups RegExpRouter cannot match', async () => {
+    const router = new Router({strategy});
+    router.get('/ping', () => 'pong');
+
+    expect(() => router.get('/docs/readme{.:format}', () => 'readme')).toThrow(
+      'Path is not supported by the "regexp" strategy: /docs/readme{.:format}',
+    );
+    expect(() => router.get('/items/:id{[0-9]+}{.:ext}', () => 'item')).toThrow('"regexp" strategy');
+    expect((await request(createApp(router)).get('/ping')).text).toBe('pong');
+  });
+
+  it.skipIf(strategy === 'regexp')('should keep regex constraints and remove every group combination', async () => {
+    const router = new Router({strategy});
+    router.get('/items/:id{[0-9]+}{.:ext}', req => req.params);
+    const app = createApp(router);
+
+    expect((await request(app).get('/items/42.json')).body).toEqual({id: '42', ext: 'json'});
+    expect((await request(app).get('/items/x')).status).toBe(404);
+
+    router.remove('GET', '/items/:id{[0-9]+}{.:ext}');
+    expect((await request(app).get('/items/42')).status).toBe(404);
+    expect((await request(app).get('/items/42.json')).status).toBe(404);
+  });
+
+  it('should run param callbacks for embedded params', async () => {
+    const router = new Router({strategy});
+    router.param('ext', (req, res, next, value) => {
+      (req as any).ext = String(value).toUpperCase();
+      next();
+    });
+    router.get('/files/:name.:ext', req => ({ext: (req as any).ext}));
+
+    expect((await request(createApp(router)).get('/files/a.txt')).body).toEqual({ext: 'TXT'});
+  });
+});
+
+describe.each(['regexp', 'trie', 'smart'] as const)('Router wildcard captures (%s strategy)', strategy => {
+  it('should capture named and unnamed wildcards', async () => {
+    const router = new Router({strategy});
+    router.get('/files/*path', req => req.params);
+    router.get('/proxy/*', req => ({params: req.params, rest: req.param('0')}));
+    const app = createApp(router);
+
+    expect((await request(app).get('/files/a/b/c.txt')).body).toEqual({path: 'a/b/c.txt'});
+    expect((await request(app).get('/proxy/api/v1/users')).body).toEqual({
+      params: {0: 'api/v1/users'},
+      rest: 'api/v1/users',
+    });
+    expect((await request(app).get('/proxy')).body).toEqual({params: {0: ''}, rest: ''});
+  });
+
+  it('should decode wildcard captures and keep other params', async () => {
+    const router = new Router({strategy});
+    router.get('/users/:id/*', req => req.params);
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/7/docs/my%20file.txt')).body).toEqual({id: '7', 0: 'docs/my file.txt'});
+  });
+
+  it('should not capture wildcards for middleware', async () => {
+    const router = new Router({strategy});
+    router.use('/api/*', (req, res, next) => {
+      res.setHeader('x-params', JSON.stringify(req.params));
+      next();
+    });
+    router.get('/api/ping', () => 'pong');
+
+    const res = await request(createApp(router)).get('/api/ping');
+    expect(res.headers['x-params']).toBe('{}');
+  });
+});
+
+describe('Router RegExp paths', () => {
+  it('should map capture groups to params and fall back to PatternRouter', async () => {
+    const router = new Router();
+    router.get('/users/:id', req => req.params);
+    router.get(/^\/legacy\/(\d+)$/, req => ({params: req.params, id: req.param('0')}));
+    router.get(/^\/archive\/(?<year>\d{4})$/, req => req.params);
+    const app = createApp(router);
+
+    expect((await request(app).get('/users/1')).body).toEqual({id: '1'});
+    expect((await request(app).get('/legacy/42')).body).toEqual({params: {0: '42'}, id: '42'});
+    expect((await request(app).get('/legacy/abc')).status).toBe(404);
+    expect((await request(app).get('/archive/2024')).body).toEqual({0: '2024', year: '2024'});
+    expect(router.router.activeRouter.name).toBe('PatternRouter');
+    expect(router.routes[1].path).toBe('/^\\/legacy\\/(\\d+)$/');
+  });
+
+  it('should prefix RegExp paths with mount prefixes and remove them', async () => {
+    const legacy = new Router();
+    legacy.get(/^\/item\/(\d+)$/, req => req.params);
+    const router = new Router();
+    router.route('/v1', legacy);
+    const app = createApp(router);
+
+    expect((await request(app).get('/v1/item/7')).body).toEqual({0: '7'});
+    expect((await request(app).get('/item/7')).status).toBe(404);
+
+    router.remove('GET', /^\/v1(?:\/item\/(\d+)$)/);
+    expect(router.routes).toHaveLength(1);
+    legacy.remove('GET', /^\/item\/(\d+)$/);
+    expect(legacy.routes).toHaveLength(0);
+  });
+
+  it('should reject RegExp paths with a strategy that cannot match them', () => {
+    expect(() => new Router({strategy: 'trie'}).get(/^\/a$/, () => 'a')).toThrow(/not supported by the "trie"/);
+    expect(() => new Router({strategy: 'pattern'}).get(/^\/a$/, () => 'a')).not.toThrow();
+  });
+
+  it('should report RegExp paths as matcher fallbacks', () => {
+    const router = new Router();
+    router.get(/^\/a$/, () => 'a');
+    expect(router.lint()).toEqual([expect.objectContaining({type: 'fallback', path: '/^\\/a$/'})]);
+  });
+});
+
+describe('Router route metadata', () => {
+  it('should expose the endpoint metadata on req.endpoint, to middleware too', async () => {
+    const router = new Router();
+    router.use((req, res, next) => {
+      expectTypeOf(req.endpoint).toEqualTypeOf<RouterRoute | undefined>();
+      if (req.endpoint?.meta?.roles?.includes('admin') && req.headers['x-role'] !== 'admin') {
+        throw new HttpError(HttpStatus.FORBIDDEN, {message: 'Admins only'});
+      }
+      next();
+    });
+    router.get('/stats', {meta: {roles: ['admin'], tags: ['admin']}}, req => req.endpoint?.meta);
+    router.get('/public', req => ({meta: req.route.meta ?? null, path: req.route.path}));
+    const app = express();
+    app.use(router.dispatch);
+    app.use(errorHandler());
+
+    expect((await request(app).get('/stats')).status).toBe(403);
+    expect((await request(app).get('/stats').set('x-role', 'admin')).body).toEqual({roles: ['admin'], tags: ['admin']});
+    expect((await request(app).get('/public')).body).toEqual({meta: null, path: '/public'});
+  });
+
+  it('should restore req.route when the request leaves the router', async () => {
+    const router = new Router();
+    router.get('/a', {meta: {tags: ['a']}}, (req, res, next) => next());
+    const app = express();
+    app.use(router.dispatch);
+    app.use((req, res) => {
+      res.json({route: req.route ?? null, pattern: req.matchedRoute?.pattern});
+    });
+
+    expect((await request(app).get('/a')).body).toEqual({route: null, pattern: '/a'});
+  });
+
+  it('should follow the endpoint handling the request when earlier ones call next()', async () => {
+    const seen: unknown[] = [];
+    const router = new Router();
+    router.get('/a/:id', {meta: {tags: ['by-id']}}, (req, res, next) => {
+      seen.push(req.route.path);
+      next();
+    });
+    router.use((req, res, next) => {
+      seen.push(req.route.path);
+      next();
+    });
+    router.get('/a/me', {meta: {tags: ['me']}}, req => ({path: req.route.path, meta: req.route.meta}));
+
+    expect((await request(createApp(router)).get('/a/me')).body).toEqual({path: '/a/me', meta: {tags: ['me']}});
+    expect(seen).toEqual(['/a/:id', '/a/me']);
+  });
+
+  it('should keep metadata through route() mounts and in the route table', async () => {
+    const api = new Router();
+    api.get('/users', {name: 'users', meta: {deprecated: 'use /v2/users'}}, req => req.route.meta);
+    const router = new Router();
+    router.route('/v1', api);
+
+    expect((await request(createApp(router)).get('/v1/users')).body).toEqual({deprecated: 'use /v2/users'});
+    expect(router.routes[0].meta).toEqual({deprecated: 'use /v2/users'});
+    expect(router.inspect().routes[0]).toMatchObject({path: '/v1/users', meta: {deprecated: 'use /v2/users'}});
+  });
+});
+
+describe('Router matched route', () => {
+  it('should expose the pattern of the endpoint handling the request', async () => {
+    const seen: unknown[] = [];
+    const api = new Router();
+    api.use((req, res, next) => {
+      seen.push(req.matchedRoute);
+      next();
+    });
+    api.get('/users/:id', (req, res, next) => (req.params.id === 'me' ? next() : 'user'));
+    api.get('/users/me', req => {
+      const {pattern, method, prefix} = req.matchedRoute!;
+      return {pattern, method, prefix};
+    });
+    const router = new Router();
+    router.route('/api', api);
+
+    const app = express();
+    app.use((req, res, next) => {
+      res.on('finish', () => seen.push(req.matchedRoute?.pattern));
+      next();
+    });
+    app.use(router.dispatch);
+
+    const res = await request(app).get('/api/users/me');
+    expect(res.body).toEqual({pattern: '/api/users/me', method: 'GET', prefix: '/api'});
+    expect(seen).toEqual([undefined, '/api/users/me']);
+
+    seen.length = 0;
+    await request(app).get('/api/users/1');
+    expect(seen).toEqual([undefined, '/api/users/:id']);
+  });
+
+  it('should expose the full route with a single handler', async () => {
+    const router = new Router();
+    router.group('/admin', r => r.get('/stats', {name: 'stats'}, req => req.matchedRoute!.route.name));
+
+    const app = express();
+    app.use(router.dispatch);
+    expect((await request(app).get('/admin/stats')).text).toBe('stats');
+  });
+});
+
+describe('Router Express mounts', () => {
+  it('should delegate to an Express router with rewritten baseUrl and url', async () => {
+    const legacy = express.Router();
+    legacy.get('/users/:id', (req, res) => {
+      res.json({id: req.params.id, baseUrl: req.baseUrl, url: req.url, originalUrl: req.originalUrl});
+    });
+    const router = new Router();
+    router.mount('/legacy', legacy);
+    router.get('/after', req => ({baseUrl: req.baseUrl, url: req.url}));
+
+    const app = express();
+    app.use('/v1', router.dispatch);
+
+    expect((await request(app).get('/v1/legacy/users/7?full=1')).body).toEqual({
+      id: '7',
+      baseUrl: '/v1/legacy',
+      url: '/users/7?full=1',
+      originalUrl: '/v1/legacy/users/7?full=1',
+    });
+    expect((await request(app).get('/v1/after')).body).toEqual({baseUrl: '/v1', url: '/after'});
+  });
+
+  it('should restore baseUrl and url when the mounted handler falls through', async () => {
+    const legacy = express.Router();
+    legacy.get('/only', (req, res) => {
+      res.send('legacy');
+    });
+    const router = new Router();
+    router.mount('/legacy', legacy);
+    router.get('/legacy/fallback', req => ({baseUrl: req.baseUrl, url: req.url}));
+
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/legacy/only')).text).toBe('legacy');
+    expect((await request(app).get('/legacy/fallback')).body).toEqual({baseUrl: '', url: '/legacy/fallback'});
+  });
+
+  it('should mount Express apps and keep their request prototype local', async () => {
+    const sub = express();
+    sub.locals.name = 'sub';
+    sub.get('/', (req, res) => {
+      res.send(req.app.locals.name);
+    });
+    sub.get('/next', (req, res, next) => next());
+    const router = new Router();
+    router.mount('/sub', sub);
+    router.get('/sub/next', req => req.app.locals.name);
+
+    const app = express();
+    app.locals.name = 'main';
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/sub')).text).toBe('sub');
+    expect((await request(app).get('/sub/next')).text).toBe('main');
+    expect((await request(app).get('/subway')).status).toBe(404);
+  });
+});
+
+describe('Router lazy sub-routers', () => {
+  const createAdmin = () => {
+    const admin = new Router();
+    admin.get('/stats', () => 'stats');
+    admin.get('/users/:id', req => ({id: req.params.id}));
+    return admin;
+  };
+
+  it('should load the sub-router once, on the first request to its prefix', async () => {
+    const load = vi.fn(async () => ({default: createAdmin()}));
+    const logger = vi.fn();
+    const router = new Router();
+    router.use((req, res, next) => {
+      logger(req.path);
+      next();
+    });
+    router.lazy('/admin', load);
+    router.get('/ping', () => 'pong');
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/ping')).text).toBe('pong');
+    expect(load).not.toHaveBeenCalled();
+    expect(router.inspect().routes.map(r => r.path)).toEqual(['/*', '/admin/*', '/ping']);
+
+    const [stats, user] = await Promise.all([request(app).get('/admin/stats'), request(app).get('/admin/users/7')]);
+    expect(stats.text).toBe('stats');
+    expect(user.body).toEqual({id: '7'});
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(logger).toHaveBeenCalledTimes(3);
+    expect(router.inspect().routes.map(r => r.path)).toEqual(['/*', '/admin/stats', '/admin/users/:id', '/ping']);
+    expect((await request(app).get('/admin/missing')).status).toBe(404);
+  });
+
+  it('should pass load errors to next() and retry on the next request', async () => {
+    const load = vi.fn().mockRejectedValueOnce(new Error('chunk failed')).mockResolvedValue(createAdmin());
+    const router = new Router();
+    router.lazy('/admin', load);
+    const app = express();
+    app.use(router.dispatch);
+    app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(503).send(err.message);
+    });
+
+    const failed = await request(app).get('/admin/stats');
+    expect([failed.status, failed.text]).toEqual([503, 'chunk failed']);
+    expect((await request(app).get('/admin/stats')).text).toBe('stats');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should match the loaded routes where lazy() was called', async () => {
+    const router = new Router();
+    router.lazy('/admin', async () => createAdmin());
+    router.get('/admin/*', () => 'catch-all');
+    const app = createApp(router);
+
+    expect((await request(app).get('/admin/stats')).text).toBe('stats');
+    expect((await request(app).get('/admin/stats')).text).toBe('stats');
+    expect((await request(app).get('/admin/other')).text).toBe('catch-all');
+  });
+
+  it('should run the handlers after lazy() once on the first request', async () => {
+    const after = vi.fn();
+    const router = new Router();
+    router.lazy('/admin', async () => createAdmin());
+    router.use((req, res, next) => {
+      after(req.path);
+      next();
+    });
+
+    expect((await request(createApp(router)).get('/admin/nope')).status).toBe(404);
+    expect(after).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run param callbacks once on the first request', async () => {
+    const loadUser = vi.fn();
+    const router = new Router();
+    router.param('id', (req, res, next, id) => {
+      loadUser(id);
+      next();
+    });
+    router.lazy('/admin/:id', async () => new Router().get('/x', req => ({id: req.param('id')})));
+
+    expect((await request(createApp(router)).get('/admin/5/x')).body).toEqual({id: '5'});
+    expect(loadUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load lazy routers of mounted routers', async () => {
+    const api = new Router();
+    api.lazy('/admin', async () => createAdmin());
+    const router = new Router();
+    router.route('/api', api);
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/api/admin/users/3')).body).toEqual({id: '3'});
+    expect(router.routes.map(r => r.path)).toEqual(['/api/admin/stats', '/api/admin/users/:id']);
+  });
+});
+
+describe('Router route builder', () => {
+  it('should register every method on the same path', async () => {
+    const router = new Router();
+    router
+      .route('/users/:id')
+      .get(req => ({show: req.params.id}))
+      .put({name: 'users.update'}, req => ({update: req.params.id}))
+      .method('PURGE', () => 'purged');
+    router.get('/other', () => 'other');
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/users/1')).body).toEqual({show: '1'});
+    expect((await request(app).put('/users/2')).body).toEqual({update: '2'});
+    expect((await request(app).purge('/users/3')).text).toBe('purged');
+    expect((await request(app).post('/users/4')).headers.allow).toBe('GET, HEAD, PUT, PURGE, OPTIONS');
+    expect(router.url('users.update', {id: 5})).toBe('/users/5');
+    expect(() => router.route('/x').method('BAD METHOD', () => 'x')).toThrow('Invalid HTTP method');
+  });
+
+  it('should apply use() middleware to the handlers registered afterwards', async () => {
+    const auth = vi.fn((req, res, next) => next());
+    const router = new Router();
+    router.group('/admin', r => {
+      r.route('/posts/:id')
+        .get(() => 'public')
+        .use(auth)
+        .delete(() => 'deleted');
+    });
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/admin/posts/1')).text).toBe('public');
+    expect(auth).not.toHaveBeenCalled();
+    expect((await request(app).delete('/admin/posts/1')).text).toBe('deleted');
+    expect(auth).toHaveBeenCalledTimes(1);
+    expect(router.inspect().routes.map(r => `${r.method} ${r.path}`)).toEqual([
+      'GET /admin/posts/:id',
+      'DELETE /admin/posts/:id',
+    ]);
+  });
+
+  it('should infer params from the path and the mount point', () => {
+    const posts = new Router<PathParams<'/users/:userId'>>();
+    posts.route('/posts/:postId').get(req => {
+      expectTypeOf(req.params).toEqualTypeOf<{userId: string; postId: string}>();
+    });
+  });
+});
+
+describe('Router resources', () => {
+  class UsersController {
+    store = new Map([['1', 'Ada']]);
+    index() {
+      return {users: [...this.store.values()]};
+    }
+    show(req: express.Request) {
+      return {user: this.store.get(req.params.userId)};
+    }
+    create() {
+      return 'created';
+    }
+    destroy() {
+      return 'destroyed';
+    }
+  }
+
+  it('should map controller actions onto verbs and paths', async () => {
+    const router = new Router();
+    router.resource('/users', new UsersController(), {param: 'userId', except: ['destroy']});
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/users')).body).toEqual({users: ['Ada']});
+    expect((await request(app).get('/users/1')).body).toEqual({user: 'Ada'});
+    expect((await request(app).post('/users')).text).toBe('created');
+    expect((await request(app).delete('/users/1')).status).toBe(405);
+    expect(router.inspect().routes.map(r => [r.method, r.path, r.name, r.meta])).toEqual([
+      ['GET', '/users', 'users.index', {resource: 'users', action: 'index'}],
+      ['POST', '/users', 'users.create', {resource: 'users', action: 'create'}],
+      ['GET', '/users/:userId', 'users.show', {resource: 'users', action: 'show'}],
+    ]);
+  });
+
+  it('should support nested resources, only and URL generation', async () => {
+    const router = new Router();
+    router.resource(
+      '/users/:userId/posts',
+      {
+        index: req => ({userId: req.params.userId}),
+        show: req => req.params,
+        update: () => 'updated',
+      },
+      {only: ['index', 'show'], meta: {tags: ['posts']}},
+    );
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/users/1/posts')).body).toEqual({userId: '1'});
+    expect((await request(app).get('/users/1/posts/2')).body).toEqual({userId: '1', id: '2'});
+    expect((await request(app).put('/users/1/posts/2')).status).toBe(405);
+    expect(router.url('users.posts.show', {userId: 1, id: 2})).toBe('/users/1/posts/2');
+    expect(router.routes[0].meta).toEqual({tags: ['posts'], resource: 'users.posts', action: 'index'});
+  });
+
+  it('should infer collection and member params', () => {
+    const router = new Router();
+    router.resource(
+      '/users/:userId/posts',
+      {
+        index: req => {
+          expectTypeOf(req.params).toEqualTypeOf<{userId: string}>();
+        },
+        show: req => {
+          expectTypeOf(req.params).toEqualTypeOf<{userId: string; postId: string}>();
+        },
+      },
+      {param: 'postId'},
+    );
+  });
+});
+
+describe('Router mount-aware URLs', () => {
+  const urls = (req: express.Request) => ({baseUrl: req.baseUrl, url: req.url, prefix: req.matchedRoute?.prefix});
+
+  it('should expose the mount prefix in req.baseUrl while mounted handlers run', async () => {
+    const posts = new Router();
+    posts.get('/posts/:postId', urls);
+    const api = new Router();
+    api.route('/users/:userId', posts);
+    api.group('/admin', r => r.get('/stats', urls));
+    const router = new Router();
+    router.route('/api', api);
+    router.get('/root', urls);
+    const app = express();
+    app.use('/v1', router.dispatch);
+
+    expect((await request(app).get('/v1/api/users/42/posts/7?full=1')).body).toEqual({
+      baseUrl: '/v1/api/users/42',
+      url: '/posts/7?full=1',
+      prefix: '/api/users/:userId',
+    });
+    expect((await request(app).get('/v1/api/admin/stats')).body).toEqual({
+      baseUrl: '/v1/api/admin',
+      url: '/stats',
+      prefix: '/api/admin',
+    });
+    expect((await request(app).get('/v1/root')).body).toEqual({baseUrl: '/v1', url: '/root', prefix: '/'});
+  });
+
+  it('should restore req.baseUrl and req.url after next() and errors', async () => {
+    const seen: string[] = [];
+    const api = new Router();
+    api.use((req, res, next) => {
+      seen.push(`${req.baseUrl} ${req.url}`);
+      next();
+    });
+    api.get('/fail', () => {
+      throw new Error('boom');
+    });
+    const router = new Router();
+    router.route('/api', api);
+    router.get('/api/echo', req => `${req.baseUrl} ${req.url}`);
+    const app = express();
+    app.use(router.dispatch);
+    app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+      res.status(500).send(`${req.baseUrl} ${req.url}`);
+    });
+
+    expect((await request(app).get('/api/echo')).text).toBe(' /api/echo');
+    expect((await request(app).get('/api/fail')).text).toBe(' /api/fail');
+    expect(seen).toEqual(['/api /echo', '/api /fail']);
+  });
+
+  it('should mount Express routers relative to the mount prefix', async () => {
+    const legacy = express.Router();
+    legacy.get('/users', (req, res) => {
+      res.send(`${req.baseUrl} ${req.url}`);
+    });
+    const api = new Router();
+    api.mount('/legacy', legacy);
+    const router = new Router();
+    router.route('/api', api);
+    const app = express();
+    app.use(router.dispatch);
+
+    expect((await request(app).get('/api/legacy/users')).text).toBe('/api/legacy /users');
+  });
+});